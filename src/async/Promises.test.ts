@@ -0,0 +1,56 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { Promises } from "./Promises.ts";
+import { Cancellable } from "../cancellation/Cancellable.ts";
+import { CancellationError } from "../cancellation/CancellationError.ts";
+
+function source(values: number[]) {
+  const state = { returned: false };
+  let index = 0;
+  const iterable: AsyncIterable<number> = {
+    [Symbol.asyncIterator]: () => ({
+      next: () =>
+        index < values.length
+          ? Promise.resolve({ value: values[index++], done: false })
+          : new Promise<IteratorResult<number>>(() => {}),
+      return: () => {
+        state.returned = true;
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    }),
+  };
+
+  return { iterable, state };
+}
+
+Deno.test("Promises cancellableIterable closes the source on break", async () => {
+  const controller = Cancellable.create();
+  const { iterable, state } = source([1, 2, 3]);
+
+  const values: number[] = [];
+  for await (const value of Promises.cancellableIterable(iterable, controller.token)) {
+    values.push(value);
+    if (value === 2) {
+      break;
+    }
+  }
+
+  assertEquals(values, [1, 2]);
+  assert(state.returned);
+});
+
+Deno.test("Promises cancellableIterable closes the source on cancel", async () => {
+  const controller = Cancellable.create();
+  const { iterable, state } = source([1]);
+
+  const values: number[] = [];
+  await assertRejects(async () => {
+    for await (const value of Promises.cancellableIterable(iterable, controller.token)) {
+      values.push(value);
+      // the next pull never settles, so only cancellation ends the iteration
+      queueMicrotask(() => controller.cancel());
+    }
+  }, CancellationError);
+
+  assertEquals(values, [1]);
+  assert(state.returned);
+});
@@ -119,13 +119,16 @@ async function* cancellableIterable<T>(
     throw tpl.error;
   }
 
+  const it = iterable[Symbol.asyncIterator]();
+  let next: Promise<IteratorResult<T>> | undefined;
   try {
-    const it = iterable[Symbol.asyncIterator]();
     do {
+      next = it.next();
       const { done, value } = await Promise.race([
         tpl.cancellable,
-        it.next(),
+        next,
       ]);
+      next = undefined;
 
       if (done) {
         break;
@@ -135,6 +138,14 @@ async function* cancellableIterable<T>(
     } while (true);
   } finally {
     tpl.unregister();
+    if (next) {
+      // the pending pull lost the race to cancellation, so request the return
+      // without waiting for the source to produce its next value
+      next.catch(() => {});
+      it.return?.()?.catch(() => {});
+    } else {
+      await it.return?.();
+    }
   }
 }
 
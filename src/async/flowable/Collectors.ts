@@ -0,0 +1,188 @@
+import { List } from "../../List.ts";
+import { Maybe } from "../../Maybe.ts";
+
+/**
+ * Accumulates the items of a flow into a result, as consumed by `collect`.
+ * A collector is stateless, a new accumulation being created by `supplier`
+ * for every collection, so it can be reused.
+ *
+ * @template T The type of the items collected.
+ * @template A The type of the accumulation.
+ * @template R The type of the result.
+ */
+export type Collector<T, A, R> = {
+  /** creates the accumulation of a new collection */
+  supplier: () => A;
+  /** adds an item to the accumulation, returning the accumulation */
+  accumulator: (acc: A, item: T) => Promise<A> | A;
+  /** converts the accumulation to the result */
+  finisher: (acc: A) => R;
+  /**
+   * whether the result is known without further items, which stops the
+   * flow early
+   */
+  isDone?: (acc: A) => boolean;
+};
+
+/**
+ * Built-in collectors for `FlowPublisher.collect`.
+ */
+export const Collectors = Object.freeze({
+  /**
+   * Collects the items into a map. A later item with the same key replaces
+   * the value of an earlier one.
+   * @param keyFn The function returning the key of an item.
+   * @param valueFn The function returning the value of an item, the item by
+   * default.
+   * @returns A collector resolving to the map.
+   */
+  toMap<T, K, V = T>(
+    keyFn: (item: T) => K,
+    valueFn?: (item: T) => V,
+  ): Collector<T, Map<K, V>, Map<K, V>> {
+    const toValue = valueFn ?? ((item: T) => item as unknown as V);
+    return {
+      supplier: () => new Map<K, V>(),
+      accumulator: (map, item) => map.set(keyFn(item), toValue(item)),
+      finisher: (map) => map,
+    };
+  },
+
+  /**
+   * Collects the distinct items into a set.
+   * @returns A collector resolving to the set.
+   */
+  toSet<T>(): Collector<T, Set<T>, Set<T>> {
+    return {
+      supplier: () => new Set<T>(),
+      accumulator: (set, item) => set.add(item),
+      finisher: (set) => set,
+    };
+  },
+
+  /**
+   * Groups the items by key, keys being compared the way `List.groupBy`
+   * compares them.
+   * @param keyFn The function returning the key of an item.
+   * @returns A collector resolving to the lists of items by key.
+   */
+  groupingBy<T, K>(
+    keyFn: (item: T) => K,
+  ): Collector<T, Map<K, List<T>>, Map<K, List<T>>> {
+    return {
+      supplier: () => new Map<K, List<T>>(),
+      accumulator: (groups, item) => {
+        const key = keyFn(item);
+        const group = groups.get(key);
+        if (group) {
+          group.push(item);
+        } else {
+          groups.set(key, new List<T>(item));
+        }
+        return groups;
+      },
+      finisher: (groups) => groups,
+    };
+  },
+
+  /**
+   * Counts the items.
+   * @returns A collector resolving to the number of items.
+   */
+  count(): Collector<unknown, number, number> {
+    return {
+      supplier: () => 0,
+      accumulator: (count) => count + 1,
+      finisher: (count) => count,
+    };
+  },
+
+  /**
+   * Sums the items, or the numbers they are mapped to.
+   * @param valueFn The function returning the number of an item, the item
+   * by default.
+   * @returns A collector resolving to the sum, 0 for an empty flow.
+   */
+  sum<T = number>(
+    valueFn?: (item: T) => number,
+  ): Collector<T, number, number> {
+    const toNumber = valueFn ?? ((item: T) => item as unknown as number);
+    return {
+      supplier: () => 0,
+      accumulator: (sum, item) => sum + toNumber(item),
+      finisher: (sum) => sum,
+    };
+  },
+
+  /**
+   * Selects the smallest item, the first one among equals.
+   * @param comparator The function ordering the items, by `<` by default.
+   * @returns A collector resolving to the item, or nil for an empty flow.
+   */
+  min<T>(
+    comparator: (a: T, b: T) => number = naturalOrder,
+  ): Collector<T, { value: T } | undefined, Maybe<T>> {
+    return extreme((a, b) => comparator(a, b) < 0);
+  },
+
+  /**
+   * Selects the largest item, the first one among equals.
+   * @param comparator The function ordering the items, by `<` by default.
+   * @returns A collector resolving to the item, or nil for an empty flow.
+   */
+  max<T>(
+    comparator: (a: T, b: T) => number = naturalOrder,
+  ): Collector<T, { value: T } | undefined, Maybe<T>> {
+    return extreme((a, b) => comparator(a, b) > 0);
+  },
+
+  /**
+   * Tests whether any item matches the predicate, stopping the flow at the
+   * first match.
+   * @param predicate The function testing an item.
+   * @returns A collector resolving to true when an item matches.
+   */
+  some<T>(
+    predicate: (item: T) => Promise<boolean> | boolean,
+  ): Collector<T, boolean, boolean> {
+    return {
+      supplier: () => false,
+      accumulator: async (_, item) => await predicate(item),
+      finisher: (matched) => matched,
+      isDone: (matched) => matched,
+    };
+  },
+
+  /**
+   * Tests whether every item matches the predicate, stopping the flow at the
+   * first item that does not.
+   * @param predicate The function testing an item.
+   * @returns A collector resolving to true when every item matches, or the
+   * flow is empty.
+   */
+  every<T>(
+    predicate: (item: T) => Promise<boolean> | boolean,
+  ): Collector<T, boolean, boolean> {
+    return {
+      supplier: () => true,
+      accumulator: async (_, item) => await predicate(item),
+      finisher: (matched) => matched,
+      isDone: (matched) => !matched,
+    };
+  },
+});
+
+function extreme<T>(
+  replaces: (item: T, current: T) => boolean,
+): Collector<T, { value: T } | undefined, Maybe<T>> {
+  return {
+    supplier: () => undefined,
+    accumulator: (current, item) =>
+      !current || replaces(item, current.value) ? { value: item } : current,
+    finisher: (current) => Maybe.of(current?.value),
+  };
+}
+
+function naturalOrder<T>(a: T, b: T): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
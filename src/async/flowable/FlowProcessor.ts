@@ -4,6 +4,16 @@ import type { IterableLike } from "../IterableLike.ts";
 import type { CancellationError } from "../../cancellation/CancellationError.ts";
 import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
 import type { Maybe } from "../../Maybe.ts";
+import type { Executor } from "../executor.ts";
+import type { JobPool } from "../JobPool.ts";
+import type { RateLimit } from "../resiliency/rate.limit.ts";
+import type { FlowPublisher } from "./FlowPublisher.ts";
+import type { Collector } from "./Collectors.ts";
+import type {
+  CsvOptions,
+  DecodeOptions,
+  FrameOptions,
+} from "../pipeable/pipeable-codecs.ts";
 
 /**
  * Represents a flow processor that applies various operations on a stream of values.
@@ -28,6 +38,35 @@ export interface FlowProcessor<S, T> {
    */
   map<R>(mapper: (t: T, index: number) => Promise<R> | R): FlowProcessor<S, R>;
 
+  /**
+   * Transforms each value in the stream using the provided async mapper function, running up to
+   * `concurrency` mappers at once.
+   *
+   * @param mapper A function that maps each value to a new value.
+   * @param options.concurrency The maximum number of mappers in flight.
+   * @param options.ordered Whether to emit in source order (default) or in completion order.
+   * @param options.executor An optional `Executor` or `JobPool` used to run the mappers.
+   * @returns A new `FlowProcessor` that includes the transformed values.
+   */
+  mapConcurrent<R>(
+    mapper: (t: T, index: number) => Promise<R> | R,
+    options: {
+      concurrency: number;
+      ordered?: boolean;
+      executor?: Executor | JobPool;
+    },
+  ): FlowProcessor<S, R>;
+
+  /**
+   * Delays each value until every rate limit allows it, pacing the stream. The cost of a value is
+   * determined by the cost calculator of a variable limit. Values are never dropped; the input is
+   * not pulled while a value waits. The token buckets are shared by every iteration.
+   *
+   * @param limits The rate limits to satisfy.
+   * @returns A new `FlowProcessor` that includes the values at the allowed rate.
+   */
+  rateLimit(limits: RateLimit[]): FlowProcessor<S, T>;
+
   /**
    * Composes the values in the stream using the provided mapper function.
    *
@@ -38,6 +77,35 @@ export interface FlowProcessor<S, T> {
     mapper: (t: T, index: number) => AsyncGenerator<R>,
   ): FlowProcessor<S, R>;
 
+  /**
+   * Maps each value to an inner publisher or iterable and emits the values of the latest one. When
+   * a new value arrives, the cancellation token passed to the mapper of the active inner source is
+   * cancelled and the inner source is stopped.
+   *
+   * @param mapper A function returning the inner source of a value.
+   * @returns A new `FlowProcessor` that includes the values of the latest inner source.
+   */
+  switchMap<R>(
+    mapper: (
+      t: T,
+      cancellationToken: CancellationToken,
+    ) => FlowPublisher<R> | IterableLike<R>,
+  ): FlowProcessor<S, R>;
+
+  /**
+   * Maps each value to an inner publisher or iterable and emits its values, ignoring the values
+   * that arrive while an inner source is active.
+   *
+   * @param mapper A function returning the inner source of a value.
+   * @returns A new `FlowProcessor` that includes the values of the inner sources.
+   */
+  exhaustMap<R>(
+    mapper: (
+      t: T,
+      cancellationToken: CancellationToken,
+    ) => FlowPublisher<R> | IterableLike<R>,
+  ): FlowProcessor<S, R>;
+
   /**
    * Executes the provided callback function for each value in the stream without modifying the stream.
    *
@@ -46,6 +114,43 @@ export interface FlowProcessor<S, T> {
    */
   peek(cb: (item: T) => void): FlowProcessor<S, T>;
 
+  /**
+   * Skips the items equal to the item emitted before them.
+   *
+   * @param equals - The equality function, `Object.is` by default.
+   * @returns A new `FlowProcessor` that emits the items that differ from their
+   * predecessor.
+   */
+  distinctUntilChanged(equals?: (a: T, b: T) => boolean): FlowProcessor<S, T>;
+
+  /**
+   * Skips the items whose key has been seen before. To bound the memory of
+   * long-lived flows, the least recently seen key is forgotten once there are
+   * more than `maxKeys` keys, and keys are forgotten once they have not been
+   * seen for `ttl` milliseconds, after which their items are emitted again.
+   *
+   * @param keyFn - The function returning the key of an item, the item by
+   * default.
+   * @param options - The bounds of the remembered keys.
+   * @returns A new `FlowProcessor` that emits the items with unseen keys.
+   */
+  distinct<K = T>(
+    keyFn?: (item: T) => K,
+    options?: { maxKeys?: number; ttl?: number },
+  ): FlowProcessor<S, T>;
+
+  /**
+   * Emits the running accumulation of the values in the stream, starting from the seed.
+   *
+   * @param accumulator A function that combines the accumulated value with each value.
+   * @param seed The initial accumulated value.
+   * @returns A new `FlowProcessor` that includes the accumulated values.
+   */
+  scan<R>(
+    accumulator: (acc: R, t: T, index: number) => Promise<R> | R,
+    seed: R,
+  ): FlowProcessor<S, R>;
+
   /**
    * Skips values from the input stream until the specified predicate returns true.
    *
@@ -76,6 +181,49 @@ export interface FlowProcessor<S, T> {
     onError?: (error: unknown) => Promise<boolean> | boolean,
   ): FlowProcessor<S, T>;
 
+  /**
+   * Continues with the values of a fallback source when the stream fails.
+   * Errors thrown by downstream operators are not caught.
+   *
+   * @param selector A function returning the fallback publisher or iterable for the error.
+   * @returns A new `FlowProcessor` that switches to the fallback on error.
+   */
+  catchError(
+    selector: (error: unknown) => FlowPublisher<T> | IterableLike<T>,
+  ): FlowProcessor<S, T>;
+
+  /**
+   * Emits the value and completes when the stream fails.
+   *
+   * @param value The value emitted in place of the error.
+   * @returns A new `FlowProcessor` that replaces the error with the value.
+   */
+  onErrorReturn(value: T): FlowProcessor<S, T>;
+
+  /**
+   * Runs the callback once the stream terminates, whether it completes, fails or is cancelled.
+   *
+   * @param cb The cleanup callback.
+   * @returns A new `FlowProcessor` that runs the callback on termination.
+   */
+  finalize(cb: () => void | Promise<void>): FlowProcessor<S, T>;
+
+  /**
+   * Calls the callback when the stream fails, before the error is propagated.
+   *
+   * @param cb The callback called with the error.
+   * @returns A new `FlowProcessor` that taps the error.
+   */
+  doOnError(cb: (error: unknown) => void | Promise<void>): FlowProcessor<S, T>;
+
+  /**
+   * Calls the callback when the stream completes successfully.
+   *
+   * @param cb The callback called on completion.
+   * @returns A new `FlowProcessor` that taps the completion.
+   */
+  doOnComplete(cb: () => void | Promise<void>): FlowProcessor<S, T>;
+
   /**
    * Groups values from the input stream into arrays of the specified size.
    *
@@ -84,6 +232,270 @@ export interface FlowProcessor<S, T> {
    */
   chunk(size: number): FlowProcessor<S, T[]>;
 
+  /**
+   * Emits a value only after the specified time has passed without another value being emitted.
+   *
+   * @param ms The quiet period in milliseconds.
+   * @returns A new `FlowProcessor` that emits the debounced values.
+   */
+  debounce(ms: number): FlowProcessor<S, T>;
+
+  /**
+   * Emits at most one value per time window, on the leading and/or trailing edge of the window.
+   *
+   * @param ms The length of the throttle window in milliseconds.
+   * @param options The edges on which to emit, `leading` defaults to true and `trailing` to false.
+   * @returns A new `FlowProcessor` that emits the throttled values.
+   */
+  throttle(
+    ms: number,
+    options?: { leading?: boolean; trailing?: boolean },
+  ): FlowProcessor<S, T>;
+
+  /**
+   * Emits the most recent value at every interval, skipping intervals without a new value.
+   *
+   * @param ms The sampling interval in milliseconds.
+   * @returns A new `FlowProcessor` that emits the sampled values.
+   */
+  sample(ms: number): FlowProcessor<S, T>;
+
+  /**
+   * Groups values into arrays emitted after the specified time or once they reach `maxSize`.
+   *
+   * @param ms The maximum time in milliseconds to collect values for each array.
+   * @param maxSize The maximum number of values in each array.
+   * @returns A new `FlowProcessor` that groups values into time based arrays.
+   */
+  bufferTime(ms: number, maxSize?: number): FlowProcessor<S, T[]>;
+
+  /**
+   * Groups the items emitted by the stream into windows of `size` items, a
+   * new window starting every `every` items. Windows are tumbling when
+   * `every` equals `size` (default) and sliding when it is smaller. Each
+   * window is emitted as a publisher as soon as it opens, its items being
+   * emitted as they arrive, and the windows still open complete on
+   * completion. Each window buffers up to 16
+   * unread items and the source is paused while an open window is full, so
+   * windows must be consumed concurrently.
+   *
+   * @param size - The number of items in each window.
+   * @param options - The number of items between the starts of windows, and
+   * whether windows are emitted as publishers (default) or arrays.
+   * @returns A new `FlowProcessor` that emits the windows.
+   */
+  windowCount(
+    size: number,
+    options?: { every?: number; as?: "publisher" },
+  ): FlowProcessor<S, FlowPublisher<T>>;
+
+  /**
+   * Groups the items emitted by the stream into arrays of `size` items, a
+   * new array starting every `every` items. Partial arrays are flushed on
+   * completion.
+   *
+   * @param size - The number of items in each window.
+   * @param options - The number of items between the starts of windows.
+   * @returns A new `FlowProcessor` that emits the windows as arrays.
+   */
+  windowCount(
+    size: number,
+    options: { every?: number; as: "array" },
+  ): FlowProcessor<S, T[]>;
+
+  /**
+   * Groups the items emitted by the stream into count windows, emitted as publishers
+   * or arrays depending on `as`.
+   *
+   * @param size - The number of items in each window.
+   * @param options - The number of items between the starts of windows, and
+   * whether windows are emitted as publishers or arrays.
+   * @returns A new `FlowProcessor` that emits the windows.
+   */
+  windowCount(
+    size: number,
+    options?: { every?: number; as?: "publisher" | "array" },
+  ): FlowProcessor<S, FlowPublisher<T> | T[]>;
+
+  /**
+   * Groups the items emitted by the stream into windows lasting `ms`
+   * milliseconds, a new window starting every `every` milliseconds from the
+   * subscription. Windows are tumbling when `every` equals `ms` (default) and
+   * sliding when it is smaller. Each window is emitted as a publisher as
+   * soon as it opens, even if it stays empty, its items being emitted as they
+   * arrive, and the windows still open complete on completion. Each window buffers up to 16
+   * unread items and the source is paused while an open window is full, so
+   * windows must be consumed concurrently.
+   *
+   * @param ms - The duration of each window in milliseconds.
+   * @param options - The time between the starts of windows, and whether
+   * windows are emitted as publishers (default) or arrays.
+   * @returns A new `FlowProcessor` that emits the windows.
+   */
+  windowTime(
+    ms: number,
+    options?: { every?: number; as?: "publisher" },
+  ): FlowProcessor<S, FlowPublisher<T>>;
+
+  /**
+   * Groups the items emitted by the stream into arrays spanning `ms`
+   * milliseconds, a new array starting every `every` milliseconds from the
+   * subscription. The open arrays holding items are flushed on completion.
+   *
+   * @param ms - The duration of each window in milliseconds.
+   * @param options - The time between the starts of windows.
+   * @returns A new `FlowProcessor` that emits the windows as arrays.
+   */
+  windowTime(
+    ms: number,
+    options: { every?: number; as: "array" },
+  ): FlowProcessor<S, T[]>;
+
+  /**
+   * Groups the items emitted by the stream into time windows, emitted as publishers
+   * or arrays depending on `as`.
+   *
+   * @param ms - The duration of each window in milliseconds.
+   * @param options - The time between the starts of windows, and whether
+   * windows are emitted as publishers or arrays.
+   * @returns A new `FlowProcessor` that emits the windows.
+   */
+  windowTime(
+    ms: number,
+    options?: { every?: number; as?: "publisher" | "array" },
+  ): FlowProcessor<S, FlowPublisher<T> | T[]>;
+
+  /**
+   * Groups the items emitted by the stream into sessions, a session closing
+   * once `gapMs` milliseconds pass without an item. Each session is emitted
+   * as a publisher as soon as its first item arrives, its items being emitted
+   * as they arrive, and a pending session completes on completion. A session
+   * buffers up to 16 unread items and the source is paused while it is full.
+   *
+   * @param gapMs - The inactivity gap in milliseconds that closes a session.
+   * @param options - Whether sessions are emitted as publishers (default) or
+   * arrays.
+   * @returns A new `FlowProcessor` that emits the sessions.
+   */
+  sessionWindow(
+    gapMs: number,
+    options?: { as?: "publisher" },
+  ): FlowProcessor<S, FlowPublisher<T>>;
+
+  /**
+   * Groups the items emitted by the stream into arrays, an array closing
+   * once `gapMs` milliseconds pass without an item. A pending array is
+   * flushed on completion.
+   *
+   * @param gapMs - The inactivity gap in milliseconds that closes a session.
+   * @param options - Emits the sessions as arrays.
+   * @returns A new `FlowProcessor` that emits the sessions as arrays.
+   */
+  sessionWindow(gapMs: number, options: { as: "array" }): FlowProcessor<S, T[]>;
+
+  /**
+   * Groups the items emitted by the stream into sessions, emitted as publishers
+   * or arrays depending on `as`.
+   *
+   * @param gapMs - The inactivity gap in milliseconds that closes a session.
+   * @param options - Whether sessions are emitted as publishers or arrays.
+   * @returns A new `FlowProcessor` that emits the windows.
+   */
+  sessionWindow(
+    gapMs: number,
+    options?: { as?: "publisher" | "array" },
+  ): FlowProcessor<S, FlowPublisher<T> | T[]>;
+
+  /**
+   * Decodes the chunks of bytes emitted by the stream into text. Multi-byte
+   * characters split across chunks are decoded once complete.
+   *
+   * @param encoding - The encoding of the bytes, "utf-8" by default.
+   * @param options - The options of the underlying `TextDecoder`.
+   * @returns A new `FlowProcessor` that emits the decoded text.
+   */
+  decodeText(
+    encoding?: string,
+    options?: TextDecoderOptions,
+  ): FlowProcessor<S, string>;
+
+  /**
+   * Splits the chunks of text emitted by the stream into lines, without
+   * their LF or CRLF terminators. A final line without a terminator is
+   * emitted on completion.
+   *
+   * @returns A new `FlowProcessor` that emits the lines.
+   */
+  splitLines(): FlowProcessor<S, string>;
+
+  /**
+   * Parses the chunks of newline-delimited JSON emitted by the stream,
+   * skipping blank lines. Lines that are not valid JSON are passed to
+   * `onError` as a `MalformedRecordError`, or skipped without it.
+   *
+   * @param options - The callback for malformed records.
+   * @returns A new `FlowProcessor` that emits the parsed values.
+   */
+  parseNdjson<R = unknown>(
+    options?: DecodeOptions,
+  ): FlowProcessor<S, R>;
+
+  /**
+   * Serializes each value as a line of newline-delimited JSON.
+   *
+   * @returns A new `FlowProcessor` that emits one line per value.
+   */
+  stringifyNdjson(): FlowProcessor<S, string>;
+
+  /**
+   * Parses the chunks of RFC 4180 CSV emitted by the stream into arrays of
+   * fields. Malformed records are passed to `onError` as a
+   * `MalformedRecordError`, or skipped without it.
+   *
+   * @param options - The delimiter and the callback for malformed records.
+   * @returns A new `FlowProcessor` that emits the records.
+   */
+  parseCsv(
+    options?: CsvOptions & { header?: false },
+  ): FlowProcessor<S, string[]>;
+
+  /**
+   * Parses the chunks of RFC 4180 CSV emitted by the stream into objects
+   * keyed by column, the columns being read from the first record when
+   * `header` is true. Malformed records, including those with another number
+   * of fields than there are columns, are passed to `onError` as a
+   * `MalformedRecordError`, or skipped without it.
+   *
+   * @param options - The header, delimiter and callback for malformed records.
+   * @returns A new `FlowProcessor` that emits the records.
+   */
+  parseCsv(
+    options: CsvOptions & { header: true | string[] },
+  ): FlowProcessor<S, Record<string, string>>;
+
+  /**
+   * Splits the chunks of bytes emitted by the stream into frames, each
+   * preceded by its length. Frames longer than `maxFrameLength` and bytes
+   * left over on completion are passed to `onError` as a
+   * `MalformedRecordError`, or skipped without it.
+   *
+   * @param options - The length prefix, maximum frame length and callback for
+   * malformed records.
+   * @returns A new `FlowProcessor` that emits the frames.
+   */
+  lengthPrefixedFrames(
+    options?: FrameOptions,
+  ): FlowProcessor<S, Uint8Array>;
+
+  /**
+   * Converts the processor to a `TransformStream`, so it can be used with
+   * `pipeThrough`. The values written to the stream are processed as they are
+   * read from it, which preserves the backpressure of both sides.
+   *
+   * @returns A `TransformStream` that applies the processor.
+   */
+  toTransformStream(): TransformStream<S, T>;
+
   /**
    * Converts the input stream to an observable.
    *
@@ -244,6 +656,130 @@ export interface FlowProcessor<S, T> {
     options?: CancellationIterableOptions,
   ): Promise<void>;
 
+  /**
+   * Reduces the values of the input iterable to a single value.
+   *
+   * @param input The input iterable to reduce.
+   * @param accumulator A function that combines the accumulated value with each value.
+   * @param seed The initial accumulated value.
+   * @param cancellationToken Optional cancellation token to cancel the operation.
+   * @returns A promise that resolves to the accumulated value.
+   */
+  reduce<R>(
+    input: IterableLike<S>,
+    accumulator: (acc: R, t: T, index: number) => Promise<R> | R,
+    seed: R,
+    cancellationToken?: CancellationToken,
+  ): Promise<R>;
+
+  /**
+   * Reduces the values of the input iterable to a single value.
+   *
+   * @param input The input iterable to reduce.
+   * @param accumulator A function that combines the accumulated value with each value.
+   * @param seed The initial accumulated value.
+   * @param onCancel Callback function to handle cancellation errors.
+   * @returns A promise that resolves to the accumulated value.
+   */
+  reduce<R>(
+    input: IterableLike<S>,
+    accumulator: (acc: R, t: T, index: number) => Promise<R> | R,
+    seed: R,
+    onCancel: (error: CancellationError) => void,
+  ): Promise<R>;
+
+  /**
+   * Reduces the values of the input iterable to a single value.
+   *
+   * @param input The input iterable to reduce.
+   * @param accumulator A function that combines the accumulated value with each value.
+   * @param seed The initial accumulated value.
+   * @param throwOnCancellation Specifies whether to throw an error on cancellation.
+   * @returns A promise that resolves to the accumulated value.
+   */
+  reduce<R>(
+    input: IterableLike<S>,
+    accumulator: (acc: R, t: T, index: number) => Promise<R> | R,
+    seed: R,
+    throwOnCancellation: boolean,
+  ): Promise<R>;
+
+  /**
+   * Reduces the values of the input iterable to a single value.
+   *
+   * @param input The input iterable to reduce.
+   * @param accumulator A function that combines the accumulated value with each value.
+   * @param seed The initial accumulated value.
+   * @param options The cancellation iterable options.
+   * @returns A promise that resolves to the accumulated value.
+   */
+  reduce<R>(
+    input: IterableLike<S>,
+    accumulator: (acc: R, t: T, index: number) => Promise<R> | R,
+    seed: R,
+    options?: CancellationIterableOptions,
+  ): Promise<R>;
+
+  /**
+   * Collects the values of the input iterable into a result, stopping early
+   * once the collector knows its result.
+   *
+   * @param input The input iterable to collect.
+   * @param collector The collector accumulating the values.
+   * @param cancellationToken Optional cancellation token to cancel the operation.
+   * @returns A promise that resolves to the result of the collector.
+   */
+  collect<R, A>(
+    input: IterableLike<S>,
+    collector: Collector<T, A, R>,
+    cancellationToken?: CancellationToken,
+  ): Promise<R>;
+
+  /**
+   * Collects the values of the input iterable into a result, stopping early
+   * once the collector knows its result.
+   *
+   * @param input The input iterable to collect.
+   * @param collector The collector accumulating the values.
+   * @param onCancel Callback function to handle cancellation errors.
+   * @returns A promise that resolves to the result of the collector.
+   */
+  collect<R, A>(
+    input: IterableLike<S>,
+    collector: Collector<T, A, R>,
+    onCancel: (error: CancellationError) => void,
+  ): Promise<R>;
+
+  /**
+   * Collects the values of the input iterable into a result, stopping early
+   * once the collector knows its result.
+   *
+   * @param input The input iterable to collect.
+   * @param collector The collector accumulating the values.
+   * @param throwOnCancellation Specifies whether to throw an error on cancellation.
+   * @returns A promise that resolves to the result of the collector.
+   */
+  collect<R, A>(
+    input: IterableLike<S>,
+    collector: Collector<T, A, R>,
+    throwOnCancellation: boolean,
+  ): Promise<R>;
+
+  /**
+   * Collects the values of the input iterable into a result, stopping early
+   * once the collector knows its result.
+   *
+   * @param input The input iterable to collect.
+   * @param collector The collector accumulating the values.
+   * @param options The cancellation iterable options.
+   * @returns A promise that resolves to the result of the collector.
+   */
+  collect<R, A>(
+    input: IterableLike<S>,
+    collector: Collector<T, A, R>,
+    options?: CancellationIterableOptions,
+  ): Promise<R>;
+
   /**
    * Selects the first item from the input.
    *
@@ -1,9 +1,22 @@
 import type { Observable } from "../_rx.types.ts";
 import type { FlowProcessor } from "./FlowProcessor.ts";
+import type { Collector } from "./Collectors.ts";
 import type { CancellationIterableOptions } from "../../cancellation/CancellationIterableOptions.ts";
 import type { CancellationError } from "../../cancellation/CancellationError.ts";
 import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
 import type { Maybe } from "../../Maybe.ts";
+import type { BufferStrategyOptions } from "../../buffer/BufferLike.ts";
+import type { RetryableSettings } from "../resiliency/rate.limit.ts";
+import type { TimeoutInput } from "../../types.ts";
+import type { IterableLike } from "../IterableLike.ts";
+import type { Executor } from "../executor.ts";
+import type { JobPool } from "../JobPool.ts";
+import type { RateLimit } from "../resiliency/rate.limit.ts";
+import type {
+  CsvOptions,
+  DecodeOptions,
+  FrameOptions,
+} from "../pipeable/pipeable-codecs.ts";
 
 /**
  * Represents a flow publisher that applies various operations on a stream of
@@ -33,6 +46,38 @@ export interface FlowPublisher<T> {
     mapper: (t: T, index: number) => Promise<R> | R,
   ): FlowPublisher<R>;
 
+  /**
+   * Transforms the items emitted by the publisher using an async mapper
+   * function, running up to `concurrency` mappers at once.
+   *
+   * @param mapper - The mapper function used to transform the items.
+   * @param options - The concurrency options. `ordered` (default true) emits
+   * the transformed items in source order rather than completion order, and
+   * `executor` runs the mappers on an existing `Executor` or `JobPool`.
+   * @returns A new `FlowPublisher` that emits the transformed items.
+   */
+  mapConcurrent<R>(
+    mapper: (t: T, index: number) => Promise<R> | R,
+    options: {
+      concurrency: number;
+      ordered?: boolean;
+      executor?: Executor | JobPool;
+    },
+  ): FlowPublisher<R>;
+
+  /**
+   * Delays each item until every rate limit allows it, pacing the flow. The
+   * cost of an item is determined by the cost calculator of a variable limit,
+   * which is passed a function returning the item. Items are never dropped;
+   * the publisher is not pulled while an item waits, so the pacing propagates
+   * upstream as backpressure. The token buckets are shared by every
+   * subscription.
+   *
+   * @param limits - The rate limits to satisfy.
+   * @returns A new `FlowPublisher` that emits the items at the allowed rate.
+   */
+  rateLimit(limits: RateLimit[]): FlowPublisher<T>;
+
   /**
    * Composes the items emitted by the publisher using an async generator.
    *
@@ -43,6 +88,37 @@ export interface FlowPublisher<T> {
     mapper: (t: T, index: number) => AsyncGenerator<R>,
   ): FlowPublisher<R>;
 
+  /**
+   * Maps each item to an inner publisher or iterable and emits the items of
+   * the latest one. When a new item arrives, the cancellation token passed to
+   * the mapper of the active inner source is cancelled and the inner source is
+   * stopped, so pending work such as fetches can be aborted.
+   *
+   * @param mapper - The function returning the inner source of an item.
+   * @returns A new `FlowPublisher` that emits the items of the latest inner
+   * source.
+   */
+  switchMap<R>(
+    mapper: (
+      item: T,
+      cancellationToken: CancellationToken,
+    ) => FlowPublisher<R> | IterableLike<R>,
+  ): FlowPublisher<R>;
+
+  /**
+   * Maps each item to an inner publisher or iterable and emits its items,
+   * ignoring the items that arrive while an inner source is active.
+   *
+   * @param mapper - The function returning the inner source of an item.
+   * @returns A new `FlowPublisher` that emits the items of the inner sources.
+   */
+  exhaustMap<R>(
+    mapper: (
+      item: T,
+      cancellationToken: CancellationToken,
+    ) => FlowPublisher<R> | IterableLike<R>,
+  ): FlowPublisher<R>;
+
   /**
    * Executes a callback function for each item emitted by the publisher.
    *
@@ -51,6 +127,45 @@ export interface FlowPublisher<T> {
    */
   peek(cb: (item: T) => void): FlowPublisher<T>;
 
+  /**
+   * Skips the items equal to the item emitted before them.
+   *
+   * @param equals - The equality function, `Object.is` by default.
+   * @returns A new `FlowPublisher` that emits the items that differ from their
+   * predecessor.
+   */
+  distinctUntilChanged(equals?: (a: T, b: T) => boolean): FlowPublisher<T>;
+
+  /**
+   * Skips the items whose key has been seen before. To bound the memory of
+   * long-lived flows, the least recently seen key is forgotten once there are
+   * more than `maxKeys` keys, and keys are forgotten once they have not been
+   * seen for `ttl` milliseconds, after which their items are emitted again.
+   *
+   * @param keyFn - The function returning the key of an item, the item by
+   * default.
+   * @param options - The bounds of the remembered keys.
+   * @returns A new `FlowPublisher` that emits the items with unseen keys.
+   */
+  distinct<K = T>(
+    keyFn?: (item: T) => K,
+    options?: { maxKeys?: number; ttl?: number },
+  ): FlowPublisher<T>;
+
+  /**
+   * Emits the running accumulation of the items emitted by the publisher,
+   * starting from the seed.
+   *
+   * @param accumulator - The function that combines the accumulated value
+   * with each item.
+   * @param seed - The initial accumulated value.
+   * @returns A new `FlowPublisher` that emits the accumulated values.
+   */
+  scan<R>(
+    accumulator: (acc: R, item: T, index: number) => Promise<R> | R,
+    seed: R,
+  ): FlowPublisher<R>;
+
   /**
    * Skips items emitted by the publisher until a predicate is satisfied.
    *
@@ -87,6 +202,87 @@ export interface FlowPublisher<T> {
     onError?: (error: unknown) => Promise<boolean> | boolean,
   ): FlowPublisher<T>;
 
+  /**
+   * Continues with the items of a fallback source when the publisher fails.
+   * Errors thrown by downstream operators are not caught.
+   *
+   * @param selector - The function returning the fallback publisher or
+   * iterable for the error.
+   * @returns A new `FlowPublisher` that switches to the fallback on error.
+   */
+  catchError(
+    selector: (error: unknown) => FlowPublisher<T> | IterableLike<T>,
+  ): FlowPublisher<T>;
+
+  /**
+   * Emits the value and completes when the publisher fails.
+   *
+   * @param value - The value emitted in place of the error.
+   * @returns A new `FlowPublisher` that replaces the error with the value.
+   */
+  onErrorReturn(value: T): FlowPublisher<T>;
+
+  /**
+   * Runs the callback once the flow terminates, whether it completes, fails or
+   * is cancelled.
+   *
+   * @param cb - The cleanup callback.
+   * @returns A new `FlowPublisher` that runs the callback on termination.
+   */
+  finalize(cb: () => void | Promise<void>): FlowPublisher<T>;
+
+  /**
+   * Calls the callback when the publisher fails, before the error is
+   * propagated.
+   *
+   * @param cb - The callback called with the error.
+   * @returns A new `FlowPublisher` that taps the error.
+   */
+  doOnError(cb: (error: unknown) => void | Promise<void>): FlowPublisher<T>;
+
+  /**
+   * Calls the callback when the publisher completes successfully.
+   *
+   * @param cb - The callback called on completion.
+   * @returns A new `FlowPublisher` that taps the completion.
+   */
+  doOnComplete(cb: () => void | Promise<void>): FlowPublisher<T>;
+
+  /**
+   * Resubscribes to the publisher after it fails with a transient error,
+   * waiting between attempts with the backoff of the retryable settings. Items
+   * emitted before a failure are not emitted again. The attempts are counted
+   * over the whole subscription, so a publisher that keeps failing after
+   * emitting items still runs out of retries. Once the retries are exhausted,
+   * or the error is not transient, the flow fails with a `NonRetryableError`,
+   * the same way `Retryable.execute` does.
+   *
+   * @param settings - The retry settings (`maxRetries`, `nextDelayCalc`,
+   * `errorHelper` and `maxDelay`). `maxDelay` is the overall time allowed for
+   * retrying from the first failure, the flow failing with a
+   * `DeadlineExceededError` when the next delay would exceed it.
+   * `rateLimiterOrExecutor` is not supported.
+   * @returns A new `FlowPublisher` that resubscribes on transient errors.
+   * @throws {TypeError} If `rateLimiterOrExecutor` is set.
+   */
+  retry(settings?: RetryableSettings): FlowPublisher<T>;
+
+  /**
+   * Resubscribes to the publisher after it fails, as long as the provided
+   * function resolves to `true`. Otherwise the flow fails with the error.
+   *
+   * @param shouldRetry - The function deciding whether to resubscribe, given
+   * the error and the number of failures so far. It may wait before
+   * resolving to delay the next attempt.
+   * @returns A new `FlowPublisher` that resubscribes on errors.
+   */
+  retryWhen(
+    shouldRetry: (
+      error: unknown,
+      attempt: number,
+    ) => Promise<boolean> | boolean,
+  ): FlowPublisher<T>;
+
   /**
    * Groups the items emitted by the publisher into chunks of a specified size.
    *
@@ -95,6 +291,415 @@ export interface FlowPublisher<T> {
    */
   chunk(size: number): FlowPublisher<T[]>;
 
+  /**
+   * Emits an item only after the specified time has passed without the
+   * publisher emitting another item. A pending item is emitted when the
+   * publisher completes.
+   *
+   * @param ms - The quiet period in milliseconds.
+   * @returns A new `FlowPublisher` that emits the debounced items.
+   */
+  debounce(ms: number): FlowPublisher<T>;
+
+  /**
+   * Emits at most one item per time window. The first item of a window is
+   * emitted immediately when `leading` is true (default), and the last item
+   * received during a window is emitted when it closes when `trailing` is
+   * true (default false).
+   *
+   * @param ms - The length of the throttle window in milliseconds.
+   * @param options - The edges of the window on which to emit.
+   * @returns A new `FlowPublisher` that emits the throttled items.
+   */
+  throttle(
+    ms: number,
+    options?: { leading?: boolean; trailing?: boolean },
+  ): FlowPublisher<T>;
+
+  /**
+   * Emits the most recent item at every interval, skipping intervals in which
+   * the publisher emitted nothing new. A pending item is emitted when the
+   * publisher completes.
+   *
+   * @param ms - The sampling interval in milliseconds.
+   * @returns A new `FlowPublisher` that emits the sampled items.
+   */
+  sample(ms: number): FlowPublisher<T>;
+
+  /**
+   * Groups the items emitted by the publisher into arrays that are emitted
+   * once the specified time has passed since their first item, or once they
+   * reach `maxSize` items. A partial array is emitted when the publisher
+   * completes.
+   *
+   * @param ms - The maximum time in milliseconds to collect each array.
+   * @param maxSize - The maximum number of items in each array.
+   * @returns A new `FlowPublisher` that emits the items grouped into arrays.
+   */
+  bufferTime(ms: number, maxSize?: number): FlowPublisher<T[]>;
+
+  /**
+   * Groups the items emitted by the publisher into windows of `size` items, a
+   * new window starting every `every` items. Windows are tumbling when
+   * `every` equals `size` (default) and sliding when it is smaller. Each
+   * window is emitted as a publisher as soon as it opens, its items being
+   * emitted as they arrive, and the windows still open complete on
+   * completion. Each window buffers up to 16
+   * unread items and the source is paused while an open window is full, so
+   * windows must be consumed concurrently.
+   *
+   * @param size - The number of items in each window.
+   * @param options - The number of items between the starts of windows, and
+   * whether windows are emitted as publishers (default) or arrays.
+   * @returns A new `FlowPublisher` that emits the windows.
+   */
+  windowCount(
+    size: number,
+    options?: { every?: number; as?: "publisher" },
+  ): FlowPublisher<FlowPublisher<T>>;
+
+  /**
+   * Groups the items emitted by the publisher into arrays of `size` items, a
+   * new array starting every `every` items. Partial arrays are flushed on
+   * completion.
+   *
+   * @param size - The number of items in each window.
+   * @param options - The number of items between the starts of windows.
+   * @returns A new `FlowPublisher` that emits the windows as arrays.
+   */
+  windowCount(
+    size: number,
+    options: { every?: number; as: "array" },
+  ): FlowPublisher<T[]>;
+
+  /**
+   * Groups the items emitted by the publisher into count windows, emitted as publishers
+   * or arrays depending on `as`.
+   *
+   * @param size - The number of items in each window.
+   * @param options - The number of items between the starts of windows, and
+   * whether windows are emitted as publishers or arrays.
+   * @returns A new `FlowPublisher` that emits the windows.
+   */
+  windowCount(
+    size: number,
+    options?: { every?: number; as?: "publisher" | "array" },
+  ): FlowPublisher<FlowPublisher<T> | T[]>;
+
+  /**
+   * Groups the items emitted by the publisher into windows lasting `ms`
+   * milliseconds, a new window starting every `every` milliseconds from the
+   * subscription. Windows are tumbling when `every` equals `ms` (default) and
+   * sliding when it is smaller. Each window is emitted as a publisher as
+   * soon as it opens, even if it stays empty, its items being emitted as they
+   * arrive, and the windows still open complete on completion. Each window buffers up to 16
+   * unread items and the source is paused while an open window is full, so
+   * windows must be consumed concurrently.
+   *
+   * @param ms - The duration of each window in milliseconds.
+   * @param options - The time between the starts of windows, and whether
+   * windows are emitted as publishers (default) or arrays.
+   * @returns A new `FlowPublisher` that emits the windows.
+   */
+  windowTime(
+    ms: number,
+    options?: { every?: number; as?: "publisher" },
+  ): FlowPublisher<FlowPublisher<T>>;
+
+  /**
+   * Groups the items emitted by the publisher into arrays spanning `ms`
+   * milliseconds, a new array starting every `every` milliseconds from the
+   * subscription. The open arrays holding items are flushed on completion.
+   *
+   * @param ms - The duration of each window in milliseconds.
+   * @param options - The time between the starts of windows.
+   * @returns A new `FlowPublisher` that emits the windows as arrays.
+   */
+  windowTime(
+    ms: number,
+    options: { every?: number; as: "array" },
+  ): FlowPublisher<T[]>;
+
+  /**
+   * Groups the items emitted by the publisher into time windows, emitted as publishers
+   * or arrays depending on `as`.
+   *
+   * @param ms - The duration of each window in milliseconds.
+   * @param options - The time between the starts of windows, and whether
+   * windows are emitted as publishers or arrays.
+   * @returns A new `FlowPublisher` that emits the windows.
+   */
+  windowTime(
+    ms: number,
+    options?: { every?: number; as?: "publisher" | "array" },
+  ): FlowPublisher<FlowPublisher<T> | T[]>;
+
+  /**
+   * Groups the items emitted by the publisher into sessions, a session closing
+   * once `gapMs` milliseconds pass without an item. Each session is emitted
+   * as a publisher as soon as its first item arrives, its items being emitted
+   * as they arrive, and a pending session completes on completion. A session
+   * buffers up to 16 unread items and the source is paused while it is full.
+   *
+   * @param gapMs - The inactivity gap in milliseconds that closes a session.
+   * @param options - Whether sessions are emitted as publishers (default) or
+   * arrays.
+   * @returns A new `FlowPublisher` that emits the sessions.
+   */
+  sessionWindow(
+    gapMs: number,
+    options?: { as?: "publisher" },
+  ): FlowPublisher<FlowPublisher<T>>;
+
+  /**
+   * Groups the items emitted by the publisher into arrays, an array closing
+   * once `gapMs` milliseconds pass without an item. A pending array is
+   * flushed on completion.
+   *
+   * @param gapMs - The inactivity gap in milliseconds that closes a session.
+   * @param options - Emits the sessions as arrays.
+   * @returns A new `FlowPublisher` that emits the sessions as arrays.
+   */
+  sessionWindow(gapMs: number, options: { as: "array" }): FlowPublisher<T[]>;
+
+  /**
+   * Groups the items emitted by the publisher into sessions, emitted as publishers
+   * or arrays depending on `as`.
+   *
+   * @param gapMs - The inactivity gap in milliseconds that closes a session.
+   * @param options - Whether sessions are emitted as publishers or arrays.
+   * @returns A new `FlowPublisher` that emits the windows.
+   */
+  sessionWindow(
+    gapMs: number,
+    options?: { as?: "publisher" | "array" },
+  ): FlowPublisher<FlowPublisher<T> | T[]>;
+
+  /**
+   * Decodes the chunks of bytes emitted by the publisher into text. Multi-byte
+   * characters split across chunks are decoded once complete.
+   *
+   * @param encoding - The encoding of the bytes, "utf-8" by default.
+   * @param options - The options of the underlying `TextDecoder`.
+   * @returns A new `FlowPublisher` that emits the decoded text.
+   */
+  decodeText(
+    encoding?: string,
+    options?: TextDecoderOptions,
+  ): FlowPublisher<string>;
+
+  /**
+   * Splits the chunks of text emitted by the publisher into lines, without
+   * their LF or CRLF terminators. A final line without a terminator is
+   * emitted on completion.
+   *
+   * @returns A new `FlowPublisher` that emits the lines.
+   */
+  splitLines(): FlowPublisher<string>;
+
+  /**
+   * Parses the chunks of newline-delimited JSON emitted by the publisher,
+   * skipping blank lines. Lines that are not valid JSON are passed to
+   * `onError` as a `MalformedRecordError`, or skipped without it.
+   *
+   * @param options - The callback for malformed records.
+   * @returns A new `FlowPublisher` that emits the parsed values.
+   */
+  parseNdjson<R = unknown>(
+    options?: DecodeOptions,
+  ): FlowPublisher<R>;
+
+  /**
+   * Serializes each value as a line of newline-delimited JSON.
+   *
+   * @returns A new `FlowPublisher` that emits one line per value.
+   */
+  stringifyNdjson(): FlowPublisher<string>;
+
+  /**
+   * Parses the chunks of RFC 4180 CSV emitted by the publisher into arrays of
+   * fields. Malformed records are passed to `onError` as a
+   * `MalformedRecordError`, or skipped without it.
+   *
+   * @param options - The delimiter and the callback for malformed records.
+   * @returns A new `FlowPublisher` that emits the records.
+   */
+  parseCsv(
+    options?: CsvOptions & { header?: false },
+  ): FlowPublisher<string[]>;
+
+  /**
+   * Parses the chunks of RFC 4180 CSV emitted by the publisher into objects
+   * keyed by column, the columns being read from the first record when
+   * `header` is true. Malformed records, including those with another number
+   * of fields than there are columns, are passed to `onError` as a
+   * `MalformedRecordError`, or skipped without it.
+   *
+   * @param options - The header, delimiter and callback for malformed records.
+   * @returns A new `FlowPublisher` that emits the records.
+   */
+  parseCsv(
+    options: CsvOptions & { header: true | string[] },
+  ): FlowPublisher<Record<string, string>>;
+
+  /**
+   * Splits the chunks of bytes emitted by the publisher into frames, each
+   * preceded by its length. Frames longer than `maxFrameLength` and bytes
+   * left over on completion are passed to `onError` as a
+   * `MalformedRecordError`, or skipped without it.
+   *
+   * @param options - The length prefix, maximum frame length and callback for
+   * malformed records.
+   * @returns A new `FlowPublisher` that emits the frames.
+   */
+  lengthPrefixedFrames(
+    options?: FrameOptions,
+  ): FlowPublisher<Uint8Array>;
+
+  /**
+   * Fails the flow with a `DeadlineExceededError` when the publisher takes
+   * longer than `perItem` milliseconds to emit the next item, or when the flow
+   * is still running once the `total` timeout, measured from the subscription,
+   * has passed. When a `fallback` publisher is provided, the flow switches to
+   * it instead of failing. Either way the publisher is stopped.
+   *
+   * @param options - The per item and total timeouts, and the optional
+   * fallback publisher.
+   * @returns A new `FlowPublisher` that enforces the timeouts.
+   */
+  timeout(options: {
+    perItem?: number;
+    total?: TimeoutInput;
+    fallback?: FlowPublisher<T>;
+  }): FlowPublisher<T>;
+
+  /**
+   * Splits the publisher into `count` independent publishers, each of which
+   * emits every item. The source is only subscribed to once the first branch
+   * is consumed, and is stopped once every branch has been unsubscribed. Each
+   * branch buffers up to `bufferSize` items (16 by default); once the buffer
+   * of the slowest branch is full, the policy applies: "block" (default)
+   * pauses the source until it catches up, "drop" discards the new item and
+   * "latest" discards the oldest item of that branch. Each branch can be
+   * consumed once.
+   *
+   * @param count - The number of branches.
+   * @param options - The buffer size and slowest consumer policy.
+   * @returns The branches.
+   */
+  tee(count: number, options?: {
+    bufferSize?: number;
+    policy?: "block" | "drop" | "latest";
+  }): FlowPublisher<T>[];
+
+  /**
+   * Splits the publisher into the items matching the predicate and the rest.
+   * The predicate is called once per item and the source is shared by both
+   * branches, with the same buffering and laziness as `tee`.
+   *
+   * @param predicate - The predicate routing the items.
+   * @param options - The buffer size and slowest consumer policy.
+   * @returns The matching and the remaining items.
+   */
+  partition(
+    predicate: (item: T) => Promise<boolean> | boolean,
+    options?: {
+      bufferSize?: number;
+      policy?: "block" | "drop" | "latest";
+    },
+  ): [FlowPublisher<T>, FlowPublisher<T>];
+
+  /**
+   * Groups the items emitted by the publisher by key, emitting a
+   * `{ key, publisher }` pair for each new key. Keys are compared the same way
+   * `List.groupBy` compares them. Each group buffers up to `bufferSize` items
+   * (16 by default) and the source is paused while the buffer of the group an
+   * item belongs to is full, so groups must be consumed concurrently. A group
+   * completes when the source completes, after `idleTimeout` milliseconds
+   * without items, or when its single subscriber stops; a later item with the
+   * same key then starts a new group. Stopping the outer subscription stops
+   * the source and completes every group.
+   *
+   * @param keySelector - The function returning the key of an item.
+   * @param options - The per group buffer size and idle timeout.
+   * @returns A new `FlowPublisher` that emits the groups.
+   */
+  groupBy<K>(
+    keySelector: (item: T) => K,
+    options?: { bufferSize?: number; idleTimeout?: number },
+  ): FlowPublisher<{ key: K; publisher: FlowPublisher<T> }>;
+
+  /**
+   * Groups the items emitted by the publisher by the value of a property,
+   * emitting a `{ key, publisher }` pair for each new key.
+   *
+   * @param key - The property to group by.
+   * @param options - The per group buffer size and idle timeout.
+   * @returns A new `FlowPublisher` that emits the groups.
+   */
+  groupBy<K extends keyof T>(
+    key: K,
+    options?: { bufferSize?: number; idleTimeout?: number },
+  ): FlowPublisher<{ key: T[K]; publisher: FlowPublisher<T> }>;
+
+  /**
+   * Shares a single subscription to the publisher among all of its consumers.
+   * The publisher is subscribed to when the first consumer starts iterating
+   * and unsubscribed from once the last consumer stops. Consumers only receive
+   * the items emitted while they are subscribed.
+   *
+   * @param options - The buffer each consumer receives its items through.
+   * @returns A new `FlowPublisher` that multicasts the emitted items.
+   */
+  share(options?: {
+    bufferSize?: number;
+    bufferStrategy?: BufferStrategyOptions<T>;
+  }): FlowPublisher<T>;
+
+  /**
+   * Shares a single subscription to the publisher among all of its consumers,
+   * like `share`, replaying up to `count` of the most recent items to each new
+   * consumer. Once the publisher completes, new consumers receive the replayed
+   * items followed by the completion.
+   *
+   * @param count - The number of items replayed to new consumers.
+   * @param options - The buffer each consumer receives its items through.
+   * @returns A new `FlowPublisher` that multicasts and replays the emitted
+   * items.
+   */
+  replay(count: number, options?: {
+    bufferSize?: number;
+    bufferStrategy?: BufferStrategyOptions<T>;
+  }): FlowPublisher<T>;
+
+  /**
+   * Creates a publisher that multicasts a single subscription to the
+   * publisher, which is only subscribed to once `connect` is called.
+   *
+   * @param options - The buffer each consumer receives its items through.
+   * @returns A new `ConnectableFlowPublisher` that multicasts the emitted
+   * items once connected.
+   */
+  publish(options?: {
+    bufferSize?: number;
+    bufferStrategy?: BufferStrategyOptions<T>;
+  }): ConnectableFlowPublisher<T>;
+
+  /**
+   * Creates a publisher that multicasts only the last item of a single
+   * subscription to the publisher, which is only subscribed to once `connect`
+   * is called. The last item is emitted when the publisher completes, and is
+   * also emitted to consumers that start iterating afterwards.
+   *
+   * @param options - The buffer each consumer receives its items through.
+   * @returns A new `ConnectableFlowPublisher` that multicasts the last item
+   * once connected.
+   */
+  publishLast(options?: {
+    bufferSize?: number;
+    bufferStrategy?: BufferStrategyOptions<T>;
+  }): ConnectableFlowPublisher<T>;
+
   /**
    * Connects the publisher to a flow processor.
    *
@@ -103,6 +708,18 @@ export interface FlowPublisher<T> {
    */
   pipe<R>(connectable: FlowProcessor<T, R>): FlowPublisher<R>;
 
+  /**
+   * Converts the publisher to a `ReadableStream`. The publisher is only pulled
+   * when the queue of the stream is below its high water mark, so the pull
+   * based backpressure of the stream propagates to the upstream generator.
+   * Cancelling the stream stops the publisher.
+   *
+   * @param options - The high water mark of the stream, in chunks (default
+   * 1).
+   * @returns A `ReadableStream` of the items emitted by the publisher.
+   */
+  toReadableStream(options?: { highWaterMark?: number }): ReadableStream<T>;
+
   /**
    * Converts the publisher to an observable.
    *
@@ -233,6 +850,123 @@ export interface FlowPublisher<T> {
     options?: CancellationIterableOptions,
   ): Promise<void>;
 
+  /**
+   * Reduces the items emitted by the publisher to a single value.
+   *
+   * @param accumulator - The function that combines the accumulated value
+   * with each item.
+   * @param seed - The initial accumulated value.
+   * @param cancellationToken - The cancellation token used to cancel the
+   * operation.
+   * @returns A promise that resolves to the accumulated value.
+   */
+  reduce<R>(
+    accumulator: (acc: R, item: T, index: number) => Promise<R> | R,
+    seed: R,
+    cancellationToken?: CancellationToken,
+  ): Promise<R>;
+
+  /**
+   * Reduces the items emitted by the publisher to a single value.
+   *
+   * @param accumulator - The function that combines the accumulated value
+   * with each item.
+   * @param seed - The initial accumulated value.
+   * @param onCancel - The cancellation callback function.
+   * @returns A promise that resolves to the accumulated value.
+   */
+  reduce<R>(
+    accumulator: (acc: R, item: T, index: number) => Promise<R> | R,
+    seed: R,
+    onCancel: (error: CancellationError) => void,
+  ): Promise<R>;
+
+  /**
+   * Reduces the items emitted by the publisher to a single value.
+   *
+   * @param accumulator - The function that combines the accumulated value
+   * with each item.
+   * @param seed - The initial accumulated value.
+   * @param throwOnCancellation - Whether to throw an error on cancellation.
+   * @returns A promise that resolves to the accumulated value.
+   */
+  reduce<R>(
+    accumulator: (acc: R, item: T, index: number) => Promise<R> | R,
+    seed: R,
+    throwOnCancellation: boolean,
+  ): Promise<R>;
+
+  /**
+   * Reduces the items emitted by the publisher to a single value.
+   *
+   * @param accumulator - The function that combines the accumulated value
+   * with each item.
+   * @param seed - The initial accumulated value.
+   * @param options - The cancellation options.
+   * @returns A promise that resolves to the accumulated value.
+   */
+  reduce<R>(
+    accumulator: (acc: R, item: T, index: number) => Promise<R> | R,
+    seed: R,
+    options?: CancellationIterableOptions,
+  ): Promise<R>;
+
+  /**
+   * Collects the items emitted by the publisher into a result, such as those
+   * of `Collectors`. The publisher is stopped early once the collector knows
+   * its result, as `Collectors.some` does at the first match.
+   *
+   * @param collector - The collector accumulating the items.
+   * @param cancellationToken - The cancellation token used to cancel the operation.
+   * @returns A promise that resolves to the result of the collector.
+   */
+  collect<R, A>(
+    collector: Collector<T, A, R>,
+    cancellationToken?: CancellationToken,
+  ): Promise<R>;
+
+  /**
+   * Collects the items emitted by the publisher into a result, such as those
+   * of `Collectors`. The publisher is stopped early once the collector knows
+   * its result, as `Collectors.some` does at the first match.
+   *
+   * @param collector - The collector accumulating the items.
+   * @param onCancel - The cancellation callback function.
+   * @returns A promise that resolves to the result of the collector.
+   */
+  collect<R, A>(
+    collector: Collector<T, A, R>,
+    onCancel: (error: CancellationError) => void,
+  ): Promise<R>;
+
+  /**
+   * Collects the items emitted by the publisher into a result, such as those
+   * of `Collectors`. The publisher is stopped early once the collector knows
+   * its result, as `Collectors.some` does at the first match.
+   *
+   * @param collector - The collector accumulating the items.
+   * @param throwOnCancellation - Whether to throw an error on cancellation.
+   * @returns A promise that resolves to the result of the collector.
+   */
+  collect<R, A>(
+    collector: Collector<T, A, R>,
+    throwOnCancellation: boolean,
+  ): Promise<R>;
+
+  /**
+   * Collects the items emitted by the publisher into a result, such as those
+   * of `Collectors`. The publisher is stopped early once the collector knows
+   * its result, as `Collectors.some` does at the first match.
+   *
+   * @param collector - The collector accumulating the items.
+   * @param options - The cancellation options.
+   * @returns A promise that resolves to the result of the collector.
+   */
+  collect<R, A>(
+    collector: Collector<T, A, R>,
+    options?: CancellationIterableOptions,
+  ): Promise<R>;
+
   /**
    * Selects the first item emitted by the publisher.
    *
@@ -309,3 +1043,67 @@ export interface FlowPublisher<T> {
    */
   selectLast(options?: CancellationIterableOptions): Promise<Maybe<T>>;
 }
+
+/**
+ * Represents a flow publisher that multicasts a single subscription to its
+ * source, which is only subscribed to once `connect` is called.
+ *
+ * @template T The values emitted by the publisher
+ */
+export interface ConnectableFlowPublisher<T> extends FlowPublisher<T> {
+  /**
+   * Subscribes to the source and starts emitting its items to the current
+   * consumers. Calling `connect` while connected has no effect.
+   *
+   * @returns A function that unsubscribes from the source and completes the
+   * current consumers.
+   */
+  connect(): () => void;
+}
+
+/**
+ * Represents a flow publisher whose items are pushed imperatively. Every
+ * consumer of the publisher receives the items pushed while it is subscribed,
+ * through its own buffer.
+ *
+ * @template T The values emitted by the publisher
+ */
+export interface Subject<T> {
+  /**
+   * Emits the value to the current consumers. Values pushed after the subject
+   * terminated are ignored.
+   *
+   * @param value - The value to emit.
+   */
+  next(value: T): void;
+
+  /**
+   * Fails the current and later consumers with the error.
+   *
+   * @param error - The error to fail with.
+   */
+  error(error: unknown): void;
+
+  /**
+   * Completes the current and later consumers.
+   */
+  complete(): void;
+
+  /**
+   * The publisher emitting the values pushed to the subject.
+   */
+  readonly publisher: FlowPublisher<T>;
+}
+
+/**
+ * Represents a subject that holds a current value, which is emitted to each
+ * new consumer before the values pushed afterwards.
+ *
+ * @template T The values emitted by the publisher
+ */
+export interface BehaviorSubject<T> extends Subject<T> {
+  /**
+   * The most recently pushed value, or the initial value.
+   */
+  readonly value: T;
+}
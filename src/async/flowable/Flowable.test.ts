@@ -1,12 +1,20 @@
-import { assert, assertRejects } from "@std/assert";
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
 import { asyncQueue } from "../queue/asyncQueue.ts";
 import { Flowable } from "./Flowable.ts";
+import { Collectors } from "./Collectors.ts";
+import { List } from "../../List.ts";
 import { CountingEvent } from "../fromEvent.test.ts";
 import { Cancellable } from "../../cancellation/Cancellable.ts";
 import { waitGroup } from "../WaitGroup.ts";
 import { createObservable } from "../createObservable.ts";
 import { deferred } from "../Deferred.ts";
+import { delay } from "../delay.ts";
+import { JobPool } from "../JobPool.ts";
+import { Deadline, DeadlineExceededError } from "../../deadline.ts";
 import { CancellationError } from "../../cancellation/CancellationError.ts";
+import { MalformedRecordError, NonRetryableError, RetryableError } from "../../errors/error.types.ts";
+import { RateLimit } from "../resiliency/rate.limit.ts";
+import { withVirtualTime } from "../../testing/VirtualScheduler.ts";
 
 Deno.test("flowable static array test", async () => {
   const arr = await Flowable
@@ -516,3 +524,1725 @@ Deno.test("flowable selectLast single test", async () => {
 
   assert(result.else(-1) === 1);
 });
+
+function timed<T>(...steps: Array<[number, T]>) {
+  return Flowable.fromGenerator(async function* () {
+    for (const [wait, value] of steps) {
+      await delay(wait);
+      yield value;
+    }
+  });
+}
+
+Deno.test("flowable debounce test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(
+      scheduler.cold("abc-----de|").debounce(3),
+      "-----c----(e|)",
+    );
+  });
+});
+
+Deno.test("flowable throttle leading test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(
+      scheduler.cold("abc-----de|").throttle(3),
+      "a-------d-|",
+    );
+  });
+});
+
+Deno.test("flowable throttle trailing test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(
+      scheduler.cold("abc-----de|").throttle(3, {
+        leading: false,
+        trailing: true,
+      }),
+      "---c------(e|)",
+    );
+  });
+});
+
+Deno.test("flowable throttle rejects disabling both edges", () => {
+  assertThrows(
+    () => Flowable.of([1]).throttle(3, { leading: false, trailing: false }),
+    TypeError,
+  );
+});
+
+Deno.test("flowable sample test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(
+      scheduler.cold("ab-------cd|").sample(5),
+      "-----b-----(d|)",
+    );
+  });
+});
+
+Deno.test("flowable bufferTime test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(
+      scheduler.cold("abc-----de|").bufferTime(5),
+      "-----x----(y|)",
+      { values: { x: ["a", "b", "c"], y: ["d", "e"] } },
+    );
+  });
+});
+
+Deno.test("flowable bufferTime max size test", async () => {
+  const arr = await Flowable
+    .of([1, 2, 3, 4, 5])
+    .bufferTime(1000, 2)
+    .toArray();
+
+  assertEquals(arr, [[1, 2], [3, 4], [5]]);
+});
+
+Deno.test("flowable debounce cancellation test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const controller = Cancellable.create();
+    const arr: number[] = [];
+    const source = Flowable.fromGenerator(async function* () {
+      let i = 0;
+      while (true) {
+        await delay(5);
+        yield i++;
+      }
+    });
+
+    setTimeout(() => controller.cancel(), 30);
+
+    const rejected = assertRejects(
+      () => source.debounce(20).forEach((x) => arr.push(x), controller.token),
+      CancellationError,
+    );
+
+    await scheduler.advanceBy(40);
+    await rejected;
+
+    assertEquals(arr.length, 0);
+  });
+});
+
+Deno.test("flowable merge test", async () => {
+  const arr = await Flowable
+    .merge(
+      timed<number>([0, 1], [40, 3]),
+      timed<string>([20, "a"], [40, "b"]),
+    )
+    .toArray();
+
+  assertEquals(arr, [1, "a", 3, "b"]);
+});
+
+Deno.test("flowable merge concurrency test", async () => {
+  const arr = await Flowable
+    .merge([
+      timed<number>([20, 1], [20, 2]),
+      timed<number>([0, 3]),
+      timed<number>([0, 4]),
+    ], { concurrency: 2 })
+    .toArray();
+
+  assertEquals(arr, [3, 4, 1, 2]);
+});
+
+Deno.test("flowable merge error test", async () => {
+  const failing = Flowable.fromGenerator(async function* () {
+    await delay(10);
+    yield 0;
+    throw new Error("merge failure");
+  });
+
+  await assertRejects(
+    () => Flowable.merge(timed<number>([0, 1], [50, 2]), failing).toArray(),
+    Error,
+    "merge failure",
+  );
+});
+
+Deno.test("flowable zip test", async () => {
+  const arr = await Flowable
+    .zip(
+      Flowable.of([1, 2, 3]),
+      timed<string>([10, "a"], [0, "b"]),
+      Flowable.of([true, false, true]),
+    )
+    .toArray();
+
+  assertEquals(arr, [[1, "a", true], [2, "b", false]]);
+});
+
+Deno.test("flowable combineLatest test", async () => {
+  const arr = await Flowable
+    .combineLatest(
+      timed<number>([0, 1], [40, 2]),
+      timed<string>([20, "a"], [40, "b"]),
+    )
+    .toArray();
+
+  assertEquals(arr, [[1, "a"], [2, "a"], [2, "b"]]);
+});
+
+Deno.test("flowable combineLatest empty source test", async () => {
+  const arr = await Flowable
+    .combineLatest(timed<number>([0, 1]), Flowable.of<string>([]))
+    .toArray();
+
+  assertEquals(arr, []);
+});
+
+Deno.test("flowable merge cancellation test", async () => {
+  const controller = Cancellable.create();
+  let finalized = 0;
+  const infinite = () =>
+    Flowable.fromGenerator(async function* () {
+      try {
+        while (true) {
+          await delay(5);
+          yield 1;
+        }
+      } finally {
+        finalized++;
+      }
+    });
+
+  let count = 0;
+  await Flowable
+    .merge(infinite(), infinite())
+    .forEach(() => {
+      if (++count === 5) {
+        controller.cancel();
+      }
+    }, { token: controller.token, throwOnCancellation: false });
+
+  await delay(20);
+
+  assertEquals(finalized, 2);
+});
+
+Deno.test("flowable mapConcurrent ordered test", async () => {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const arr = await Flowable
+    .of([50, 10, 30, 0, 20])
+    .mapConcurrent(async (ms, index) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await delay(ms);
+      inFlight--;
+      return index;
+    }, { concurrency: 3 })
+    .toArray();
+
+  assertEquals(arr, [0, 1, 2, 3, 4]);
+  assertEquals(maxInFlight, 3);
+});
+
+Deno.test("flowable mapConcurrent unordered test", async () => {
+  const arr = await Flowable
+    .of([60, 0, 30])
+    .mapConcurrent(async (ms) => {
+      await delay(ms);
+      return ms;
+    }, { concurrency: 3, ordered: false })
+    .toArray();
+
+  assertEquals(arr, [0, 30, 60]);
+});
+
+Deno.test("flowable mapConcurrent job pool test", async () => {
+  const pool = new JobPool({ maxConcurrency: 1 });
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const arr = await Flowable
+    .of([1, 2, 3, 4])
+    .mapConcurrent(async (x) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await delay(5);
+      inFlight--;
+      return x * 2;
+    }, { concurrency: 4, executor: pool })
+    .toArray();
+
+  pool.shutdown();
+  await pool.onShutdown();
+
+  assertEquals(arr, [2, 4, 6, 8]);
+  assertEquals(maxInFlight, 1);
+});
+
+Deno.test("flowable mapConcurrent error test", async () => {
+  await assertRejects(
+    () =>
+      Flowable
+        .of([1, 2, 3])
+        .mapConcurrent((x) => {
+          if (x === 2) {
+            throw new Error("mapper failure");
+          }
+          return x;
+        }, { concurrency: 2 })
+        .toArray(),
+    Error,
+    "mapper failure",
+  );
+});
+
+function counted(subscriptions: { count: number }, ...values: number[]) {
+  return Flowable.fromGenerator(async function* () {
+    subscriptions.count++;
+    for (const value of values) {
+      await delay(10);
+      yield value;
+    }
+  });
+}
+
+Deno.test("flowable share test", async () => {
+  const subscriptions = { count: 0 };
+  const shared = counted(subscriptions, 1, 2, 3).share();
+
+  const [a, b] = await Promise.all([shared.toArray(), shared.toArray()]);
+
+  assertEquals(a, [1, 2, 3]);
+  assertEquals(b, [1, 2, 3]);
+  assertEquals(subscriptions.count, 1);
+
+  assertEquals(await shared.toArray(), [1, 2, 3]);
+  assertEquals(subscriptions.count, 2);
+});
+
+Deno.test("flowable share disconnect test", async () => {
+  let finalized = false;
+  const shared = Flowable.fromGenerator(async function* () {
+    try {
+      let i = 0;
+      while (true) {
+        await delay(5);
+        yield i++;
+      }
+    } finally {
+      finalized = true;
+    }
+  }).share();
+
+  const first = await shared.selectFirst();
+  await delay(20);
+
+  assertEquals(first.else(-1), 0);
+  assert(finalized);
+});
+
+Deno.test("flowable share buffer strategy test", async () => {
+  const shared = Flowable.of([1, 2, 3, 4, 5]).share({
+    bufferSize: 1,
+    bufferStrategy: "latest",
+  });
+
+  const arr = await shared
+    .map(async (x) => {
+      await delay(5);
+      return x;
+    })
+    .toArray();
+
+  assert(arr.length < 5);
+  assertEquals(arr[arr.length - 1], 5);
+});
+
+Deno.test("flowable replay test", async () => {
+  const subscriptions = { count: 0 };
+  const replayed = counted(subscriptions, 1, 2, 3).replay(2);
+
+  assertEquals(await replayed.toArray(), [1, 2, 3]);
+  assertEquals(await replayed.toArray(), [2, 3]);
+  assertEquals(subscriptions.count, 1);
+});
+
+Deno.test("flowable publish test", async () => {
+  const subscriptions = { count: 0 };
+  const published = counted(subscriptions, 1, 2, 3).publish();
+
+  const a = published.toArray();
+  const b = published.map((x) => x * 2).toArray();
+
+  await delay(10);
+  published.connect();
+
+  assertEquals(await a, [1, 2, 3]);
+  assertEquals(await b, [2, 4, 6]);
+  assertEquals(subscriptions.count, 1);
+});
+
+Deno.test("flowable publishLast test", async () => {
+  const subscriptions = { count: 0 };
+  const published = counted(subscriptions, 1, 2, 3).publishLast();
+
+  const early = published.toArray();
+  await delay(10);
+  published.connect();
+
+  assertEquals(await early, [3]);
+  assertEquals(await published.toArray(), [3]);
+  assertEquals(subscriptions.count, 1);
+});
+
+Deno.test("flowable share error test", async () => {
+  const shared = Flowable.fromGenerator(async function* () {
+    yield 1;
+    await delay(10);
+    throw new Error("shared failure");
+  }).share();
+
+  const results = await Promise.allSettled([
+    shared.toArray(),
+    shared.toArray(),
+  ]);
+
+  for (const result of results) {
+    assert(result.status === "rejected");
+    assertEquals((result.reason as Error).message, "shared failure");
+  }
+});
+
+Deno.test("flowable interval test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const times: number[] = [];
+    const arr = Flowable
+      .interval(10)
+      .peek(() => times.push(Date.now()))
+      .takeWhile((x) => x < 3)
+      .toArray();
+
+    await scheduler.run();
+    assertEquals(await arr, [0, 1, 2]);
+    assertEquals(times, [10, 20, 30, 40]);
+  });
+});
+
+Deno.test("flowable interval cancellation token test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const controller = Cancellable.create();
+    const arr = Flowable
+      .interval(10, { cancellationToken: controller.token })
+      .peek((x) => {
+        if (x === 2) {
+          controller.cancel();
+        }
+      })
+      .toArray();
+
+    await scheduler.run();
+    assertEquals(await arr, [0, 1, 2]);
+  });
+});
+
+Deno.test("flowable interval deadline test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const arr = Flowable
+      .interval(20, { deadline: Deadline.after(70) })
+      .toArray();
+
+    await scheduler.run();
+    assertEquals(await arr, [0, 1, 2]);
+  });
+});
+
+Deno.test("flowable interval consumer cancellation test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const controller = Cancellable.create();
+    const arr: number[] = [];
+    const done = Flowable
+      .interval(10)
+      .forEach((x) => {
+        arr.push(x);
+        if (x === 1) {
+          controller.cancel();
+        }
+      }, { token: controller.token, throwOnCancellation: false });
+
+    await scheduler.run();
+    await done;
+    assertEquals(arr, [0, 1]);
+    assertEquals(scheduler.pendingTimers, 0);
+  });
+});
+
+Deno.test("flowable timer test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const once = Flowable.timer(10).toArray();
+    await scheduler.run();
+    assertEquals(await once, [0]);
+
+    const times: number[] = [];
+    const arr = Flowable
+      .timer(20, 5)
+      .peek(() => times.push(Date.now()))
+      .takeWhile((x) => x < 3)
+      .toArray();
+
+    await scheduler.run();
+    assertEquals(await arr, [0, 1, 2]);
+    assertEquals(times, [30, 35, 40, 45]);
+  });
+});
+
+Deno.test("flowable range test", async () => {
+  assertEquals(await Flowable.range(3, 4).toArray(), [3, 4, 5, 6]);
+  assertEquals(await Flowable.range(0, 0).toArray(), []);
+  assertThrows(() => Flowable.range(0, -1), TypeError);
+});
+
+Deno.test("flowable defer test", async () => {
+  let calls = 0;
+  const deferred = Flowable.defer(() => {
+    calls++;
+    return calls === 1 ? Flowable.of([1, 2]) : [3, 4];
+  });
+
+  assertEquals(calls, 0);
+  assertEquals(await deferred.toArray(), [1, 2]);
+  assertEquals(await deferred.toArray(), [3, 4]);
+  assertEquals(calls, 2);
+});
+
+Deno.test("flowable empty, error and never test", async () => {
+  assertEquals(await Flowable.empty().toArray(), []);
+
+  await assertRejects(
+    () => Flowable.error(new Error("flow failure")).toArray(),
+    Error,
+    "flow failure",
+  );
+
+  const arr = await Flowable
+    .never<number>()
+    .toArray({ token: Cancellable.timeout(20), throwOnCancellation: false });
+
+  assertEquals(arr, []);
+});
+
+Deno.test("flowable retry test", async () => {
+  let subscriptions = 0;
+  const arr = await Flowable
+    .defer(async function* () {
+      subscriptions++;
+      yield subscriptions * 10;
+      if (subscriptions < 3) {
+        throw new RetryableError("transient failure", 5);
+      }
+      yield subscriptions * 10 + 1;
+    })
+    .retry({ maxRetries: 3 })
+    .toArray();
+
+  assertEquals(arr, [10, 20, 30, 31]);
+  assertEquals(subscriptions, 3);
+});
+
+Deno.test("flowable retry exhausted test", async () => {
+  let subscriptions = 0;
+  const error = await assertRejects(
+    () =>
+      Flowable
+        .defer(async function* () {
+          subscriptions++;
+          yield 1;
+          throw new RetryableError("transient failure", 5);
+        })
+        .filter(() => false)
+        .retry({ maxRetries: 3 })
+        .toArray(),
+    NonRetryableError,
+  );
+
+  assertEquals(subscriptions, 3);
+  assert(error.cause instanceof RetryableError);
+});
+
+Deno.test("flowable retry counts failures after emitted items", async () => {
+  await withVirtualTime(async (scheduler) => {
+    let subscriptions = 0;
+    const items: number[] = [];
+    const done = assertRejects(
+      () =>
+        Flowable
+          .defer(async function* () {
+            subscriptions++;
+            yield 1;
+            throw new RetryableError("transient failure");
+          })
+          .retry({ maxRetries: 3, nextDelayCalc: () => 1 })
+          .forEach((item) => {
+            items.push(item);
+          }),
+      NonRetryableError,
+    );
+
+    await scheduler.run();
+    await done;
+    assertEquals(subscriptions, 3);
+    assertEquals(items, [1, 1, 1]);
+  });
+});
+
+Deno.test("flowable retry max delay is an overall budget", async () => {
+  await withVirtualTime(async (scheduler) => {
+    let subscriptions = 0;
+    const done = assertRejects(
+      () =>
+        Flowable
+          .defer(async function* () {
+            subscriptions++;
+            yield 1;
+            throw new RetryableError("transient failure");
+          })
+          .retry({ maxRetries: 10, maxDelay: 250, nextDelayCalc: () => 100 })
+          .toArray(),
+      DeadlineExceededError,
+    );
+
+    await scheduler.run();
+    await done;
+    assertEquals(subscriptions, 3);
+    assertEquals(Date.now(), 200);
+  });
+
+  assertThrows(
+    () =>
+      Flowable.of([1]).retry({
+        rateLimiterOrExecutor: { limits: [] },
+      }),
+    TypeError,
+  );
+});
+
+Deno.test("flowable retry non transient test", async () => {
+  let subscriptions = 0;
+  await assertRejects(
+    () =>
+      Flowable
+        .defer(async function* () {
+          subscriptions++;
+          yield 1;
+          throw new Error("fatal failure");
+        })
+        .retry({ maxRetries: 5, nextDelayCalc: () => 5 })
+        .toArray(),
+    NonRetryableError,
+  );
+
+  assertEquals(subscriptions, 1);
+  assertThrows(() => Flowable.of([1]).retry({ maxRetries: 0 }));
+});
+
+Deno.test("flowable retry downstream error test", async () => {
+  let subscriptions = 0;
+  await assertRejects(
+    () =>
+      Flowable
+        .defer(async function* () {
+          subscriptions++;
+          yield 1;
+        })
+        .retry({ errorHelper: { isTransient: () => true } })
+        .map(() => {
+          throw new RetryableError("downstream failure");
+        })
+        .toArray(),
+    RetryableError,
+  );
+
+  assertEquals(subscriptions, 1);
+});
+
+Deno.test("flowable retryWhen test", async () => {
+  let subscriptions = 0;
+  const attempts: number[] = [];
+  const error = await assertRejects(
+    () =>
+      Flowable
+        .defer(async function* () {
+          subscriptions++;
+          throw new Error(`failure ${subscriptions}`);
+        })
+        .retryWhen(async (_, attempt) => {
+          attempts.push(attempt);
+          await delay(5);
+          return attempt < 3;
+        })
+        .toArray(),
+    Error,
+  );
+
+  assertEquals(error.message, "failure 3");
+  assertEquals(attempts, [1, 2, 3]);
+  assertEquals(subscriptions, 3);
+});
+
+Deno.test("flowable retry cancellation test", async () => {
+  let subscriptions = 0;
+  const arr = await Flowable
+    .defer(async function* () {
+      subscriptions++;
+      yield subscriptions;
+      throw new RetryableError("transient failure", 1000);
+    })
+    .retry()
+    .toArray({ token: Cancellable.timeout(50), throwOnCancellation: false });
+
+  assertEquals(arr, [1]);
+  assertEquals(subscriptions, 1);
+});
+
+Deno.test("flowable scan test", async () => {
+  const arr = await Flowable
+    .of([1, 2, 3, 4])
+    .scan((acc, x) => acc + x, 0)
+    .toArray();
+
+  assertEquals(arr, [1, 3, 6, 10]);
+
+  const indexes = await Flowable
+    .of<string>()
+    .scan(async (acc: string[], x, index) => [...acc, `${index}:${x}`], [])
+    .selectLast(["a", "b"]);
+
+  assertEquals(indexes.value, ["0:a", "1:b"]);
+});
+
+Deno.test("flowable reduce test", async () => {
+  const sum = await Flowable
+    .of([1, 2, 3, 4])
+    .filter(x => x % 2 === 0)
+    .reduce((acc, x) => acc + x, 10);
+
+  assertEquals(sum, 16);
+
+  const joined = await Flowable
+    .of<number>()
+    .map(x => `${x}`)
+    .reduce([1, 2, 3], async (acc, x) => acc + x, "");
+
+  assertEquals(joined, "123");
+
+  const partial = await Flowable
+    .interval(10)
+    .reduce((acc, x) => acc + x, 0, {
+      token: Cancellable.timeout(55),
+      throwOnCancellation: false,
+    });
+
+  assert(partial > 0);
+});
+
+Deno.test("flowable groupBy test", async () => {
+  const groups = await Flowable
+    .of([1, 2, 3, 4, 5, 6, 7])
+    .groupBy(x => x % 3)
+    .map(async ({ key, publisher }) => [key, await publisher.toArray()])
+    .toArray();
+
+  assertEquals(groups, [[1, [1, 4, 7]], [2, [2, 5]], [0, [3, 6]]]);
+
+  const byName = await Flowable
+    .of([{ name: "a", v: 1 }, { name: "b", v: 2 }, { name: "a", v: 3 }])
+    .groupBy("name")
+    .map(({ key }) => key)
+    .toArray();
+
+  assertEquals(byName, ["a", "b"]);
+});
+
+Deno.test("flowable groupBy backpressure test", async () => {
+  let produced = 0;
+  const groups = Flowable
+    .defer(async function* () {
+      for (let i = 0; i < 10; i++) {
+        produced++;
+        yield i;
+      }
+    })
+    .groupBy(() => "all", { bufferSize: 2 })
+    .toIterable();
+
+  const { value } = await groups.next();
+  await delay(20);
+  assert(produced <= 3, `produced ${produced}`);
+
+  const items = value!.publisher.toArray();
+  const [rest] = await Promise.all([groups.next(), items]);
+  assert(rest.done);
+  assertEquals(await items, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+});
+
+Deno.test("flowable groupBy idle timeout test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const groups = timed([0, "a"], [10, "a"], [100, "a"], [10, "b"])
+      .groupBy(x => x, { idleTimeout: 50 })
+      .map(async ({ key, publisher }) => `${key}${(await publisher.toArray()).length}`)
+      .toArray();
+
+    await scheduler.run();
+    assertEquals(await groups, ["a2", "a1", "b1"]);
+  });
+
+  assertThrows(() => Flowable.of([1]).groupBy(x => x, { bufferSize: 0 }));
+});
+
+Deno.test("flowable groupBy error test", async () => {
+  const groups = await Flowable
+    .defer(async function* () {
+      yield 1;
+      throw new Error("group failure");
+    })
+    .groupBy(() => "all")
+    .toIterable();
+
+  const { value } = await groups.next();
+  await assertRejects(() => groups.next(), Error, "group failure");
+  await assertRejects(
+    () => value!.publisher.toArray(),
+    Error,
+    "group failure",
+  );
+});
+
+Deno.test("flowable fromReadableStream test", async () => {
+  const arr = await Flowable
+    .fromReadableStream(ReadableStream.from([1, 2, 3]))
+    .map(x => x * 2)
+    .toArray();
+
+  assertEquals(arr, [2, 4, 6]);
+
+  let cancelled = false;
+  const stream = new ReadableStream<number>({
+    start(controller) {
+      controller.enqueue(1);
+      controller.enqueue(2);
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  const first = await Flowable.fromReadableStream(stream).selectFirst();
+  assertEquals(first.value, 1);
+  assert(cancelled);
+});
+
+Deno.test("flowable fromReadableStream preventCancel test", async () => {
+  let cancelled = false;
+  const stream = new ReadableStream<number>({
+    start(controller) {
+      controller.enqueue(1);
+      controller.enqueue(2);
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  const arr = await Flowable
+    .fromReadableStream(stream, { preventCancel: true })
+    .toArray({ token: Cancellable.timeout(30), throwOnCancellation: false });
+
+  assertEquals(arr, [1, 2]);
+  assert(!cancelled);
+  assert(!stream.locked);
+});
+
+Deno.test("flowable toReadableStream test", async () => {
+  let produced = 0;
+  let finalized = false;
+  const stream = Flowable
+    .defer(async function* () {
+      try {
+        for (let i = 0; i < 100; i++) {
+          produced++;
+          yield i;
+        }
+      } finally {
+        finalized = true;
+      }
+    })
+    .toReadableStream({ highWaterMark: 2 });
+
+  await delay(20);
+  assert(produced <= 3, `produced ${produced}`);
+
+  const reader = stream.getReader();
+  assertEquals((await reader.read()).value, 0);
+  assertEquals((await reader.read()).value, 1);
+  await reader.cancel();
+  assert(finalized);
+  assert(produced < 10, `produced ${produced}`);
+
+  const failing = Flowable.error(new Error("stream failure")).toReadableStream();
+  await assertRejects(() => failing.getReader().read(), Error, "stream failure");
+});
+
+Deno.test("flowable toTransformStream test", async () => {
+  const processor = Flowable
+    .of<number>()
+    .filter(x => x % 2 === 1)
+    .map(x => `${x}`);
+
+  const arr = await Array.fromAsync(
+    ReadableStream.from([1, 2, 3, 4, 5]).pipeThrough(processor.toTransformStream()),
+  );
+
+  assertEquals(arr, ["1", "3", "5"]);
+});
+
+Deno.test("flowable timeout per item test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const arr = timed([0, 1], [10, 2], [10, 3])
+      .timeout({ perItem: 50 })
+      .toArray();
+
+    await scheduler.run();
+    assertEquals(await arr, [1, 2, 3]);
+
+    const items: number[] = [];
+    const failed = assertRejects(
+      () =>
+        Flowable
+          .merge(Flowable.of([1]), Flowable.timer(1000))
+          .timeout({ perItem: 30 })
+          .forEach(x => items.push(x)),
+      DeadlineExceededError,
+    );
+
+    await scheduler.run();
+    await failed;
+    assertEquals(items, [1]);
+    assertEquals(Date.now(), 50);
+  });
+
+  assertThrows(() => Flowable.of([1]).timeout({ perItem: 0 }));
+});
+
+Deno.test("flowable timeout total test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const items: number[] = [];
+    const failed = assertRejects(
+      () =>
+        Flowable
+          .interval(20)
+          .timeout({ perItem: 100, total: Deadline.after(90) })
+          .forEach(x => items.push(x)),
+      DeadlineExceededError,
+    );
+
+    await scheduler.run();
+    await failed;
+    assertEquals(items, [0, 1, 2, 3]);
+    assertEquals(Date.now(), 90);
+  });
+});
+
+Deno.test("flowable timeout fallback test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    let completedAt: number | undefined;
+    const arr = timed([0, 1], [200, 2])
+      .timeout({ perItem: 50, fallback: Flowable.of([10, 11]) })
+      .toArray()
+      .finally(() => completedAt = Date.now());
+
+    await scheduler.run();
+    assertEquals(await arr, [1, 10, 11]);
+    assertEquals(completedAt, 50);
+  });
+});
+
+function failing<T>(error: unknown, ...values: T[]) {
+  return Flowable.defer(async function* () {
+    yield* values;
+    throw error;
+  });
+}
+
+Deno.test("flowable catchError test", async () => {
+  const errors: unknown[] = [];
+  const arr = await failing(new Error("source failure"), 1, 2)
+    .catchError((error) => {
+      errors.push(error);
+      return Flowable.of([3, 4]);
+    })
+    .toArray();
+
+  assertEquals(arr, [1, 2, 3, 4]);
+  assertEquals(errors.length, 1);
+
+  const fromIterable = await Flowable
+    .of<number>()
+    .catchError(() => [0])
+    .toArray(failing(new Error("source failure"), 1).toIterable());
+
+  assertEquals(fromIterable, [1, 0]);
+
+  await assertRejects(
+    () =>
+      Flowable
+        .of([1, 2])
+        .catchError(() => [0])
+        .map(() => {
+          throw new Error("downstream failure");
+        })
+        .toArray(),
+    Error,
+    "downstream failure",
+  );
+});
+
+Deno.test("flowable onErrorReturn test", async () => {
+  const arr = await failing(new Error("source failure"), 1, 2)
+    .onErrorReturn(-1)
+    .toArray();
+
+  assertEquals(arr, [1, 2, -1]);
+  assertEquals(await Flowable.of([1]).onErrorReturn(-1).toArray(), [1]);
+});
+
+Deno.test("flowable finalize test", async () => {
+  let finalized = 0;
+  await Flowable.of([1, 2]).finalize(() => { finalized++; }).toArray();
+  assertEquals(finalized, 1);
+
+  await assertRejects(
+    () => failing(new Error("source failure"), 1).finalize(() => { finalized++; }).toArray(),
+  );
+  assertEquals(finalized, 2);
+
+  const first = await Flowable.of([1, 2]).finalize(() => { finalized++; }).selectFirst();
+  assertEquals(first.value, 1);
+  assertEquals(finalized, 3);
+
+  const arr = await Flowable
+    .interval(10)
+    .finalize(async () => {
+      await delay(1);
+      finalized++;
+    })
+    .toArray({ token: Cancellable.timeout(35), throwOnCancellation: false });
+
+  assert(arr.length > 0);
+  await delay(10);
+  assertEquals(finalized, 4);
+});
+
+Deno.test("flowable doOnError and doOnComplete test", async () => {
+  const events: string[] = [];
+  await Flowable
+    .of([1])
+    .doOnError(() => { events.push("error"); })
+    .doOnComplete(() => { events.push("complete"); })
+    .toArray();
+
+  await assertRejects(
+    () =>
+      failing(new Error("source failure"))
+        .doOnError((error) => { events.push((error as Error).message); })
+        .doOnComplete(() => { events.push("complete"); })
+        .toArray(),
+    Error,
+    "source failure",
+  );
+
+  assertEquals(events, ["complete", "source failure"]);
+});
+
+Deno.test("flowable subject test", async () => {
+  const subject = Flowable.subject<number>();
+  subject.next(0);
+
+  const first = subject.publisher.toArray();
+  const second = subject.publisher.map(x => x * 10).toArray();
+  await delay(0);
+
+  subject.next(1);
+  subject.next(2);
+  subject.complete();
+  subject.next(3);
+
+  assertEquals(await first, [1, 2]);
+  assertEquals(await second, [10, 20]);
+  assertEquals(await subject.publisher.toArray(), []);
+});
+
+Deno.test("flowable subject error and buffer test", async () => {
+  const subject = Flowable.subject<number>({ bufferSize: 2, bufferStrategy: "latest" });
+  const it = subject.publisher.toIterable();
+  const pending = it.next();
+  await delay(0);
+
+  for (let i = 1; i <= 5; i++) {
+    subject.next(i);
+  }
+  subject.error(new Error("subject failure"));
+
+  assertEquals((await pending).value, 1);
+  assertEquals((await it.next()).value, 4);
+  assertEquals((await it.next()).value, 5);
+  await assertRejects(() => it.next(), Error, "subject failure");
+  await assertRejects(() => subject.publisher.toArray(), Error, "subject failure");
+});
+
+Deno.test("flowable behaviorSubject test", async () => {
+  const subject = Flowable.behaviorSubject("initial");
+  assertEquals(subject.value, "initial");
+
+  const first = subject.publisher.toArray();
+  await delay(0);
+  subject.next("a");
+  assertEquals(subject.value, "a");
+
+  const second = subject.publisher.toArray();
+  await delay(0);
+  subject.next("b");
+  subject.complete();
+
+  assertEquals(await first, ["initial", "a", "b"]);
+  assertEquals(await second, ["a", "b"]);
+});
+
+Deno.test("flowable replaySubject test", async () => {
+  const subject = Flowable.replaySubject<number>(2);
+  subject.next(1);
+  subject.next(2);
+  subject.next(3);
+
+  const early = subject.publisher.toArray();
+  await delay(0);
+  subject.next(4);
+  subject.complete();
+
+  assertEquals(await early, [2, 3, 4]);
+  assertEquals(await subject.publisher.toArray(), [3, 4]);
+  assertThrows(() => Flowable.replaySubject(0));
+});
+
+Deno.test("flowable switchMap test", async () => {
+  const cancelled: string[] = [];
+  const arr = await timed([0, "a"], [20, "b"], [100, "c"])
+    .switchMap((query, token) => {
+      token.register(() => cancelled.push(query));
+      return timed([0, `${query}1`], [50, `${query}2`]);
+    })
+    .toArray();
+
+  assertEquals(arr, ["a1", "b1", "b2", "c1", "c2"]);
+  assertEquals(cancelled, ["a"]);
+});
+
+Deno.test("flowable switchMap inner iterable test", async () => {
+  const arr = await Flowable
+    .of([1, 2, 3])
+    .switchMap(x => [x, x * 10])
+    .toArray();
+
+  assert(arr.includes(3) && arr.includes(30), `arr ${arr}`);
+
+  await assertRejects(
+    () =>
+      Flowable
+        .of([1])
+        .switchMap(() => Flowable.error(new Error("inner failure")))
+        .toArray(),
+    Error,
+    "inner failure",
+  );
+});
+
+Deno.test("flowable exhaustMap test", async () => {
+  const arr = await timed([0, "a"], [20, "b"], [100, "c"])
+    .exhaustMap(query => timed([0, `${query}1`], [50, `${query}2`]))
+    .toArray();
+
+  assertEquals(arr, ["a1", "a2", "c1", "c2"]);
+});
+
+Deno.test("flowable switchMap processor cancellation test", async () => {
+  let innerFinalized = false;
+  const processor = Flowable
+    .of<number>()
+    .switchMap(() =>
+      Flowable.interval(10).finalize(() => { innerFinalized = true; })
+    );
+
+  const arr = await processor.toArray([1], {
+    token: Cancellable.timeout(45),
+    throwOnCancellation: false,
+  });
+
+  assert(arr.length > 0);
+  await delay(20);
+  assert(innerFinalized);
+});
+
+Deno.test("flowable rateLimit test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const times: number[] = [];
+    const arr = Flowable
+      .of([1, 2, 3, 4])
+      .rateLimit([RateLimit.fixed(2, 100)])
+      .peek(() => times.push(Date.now()))
+      .toArray();
+
+    await scheduler.run();
+    assertEquals(await arr, [1, 2, 3, 4]);
+    // the bucket refills a token every 50ms
+    assertEquals(times, [0, 0, 50, 100]);
+  });
+});
+
+Deno.test("flowable rateLimit backpressure test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    let produced = 0;
+    const it = Flowable
+      .defer(async function* () {
+        for (let i = 0; i < 10; i++) {
+          produced++;
+          yield i;
+        }
+      })
+      .rateLimit([RateLimit.fixed(1, 100)])
+      .toIterable();
+
+    const first = it.next();
+    await scheduler.settle();
+    assertEquals((await first).value, 0);
+
+    const pending = it.next();
+    await scheduler.advanceBy(30);
+    assertEquals(produced, 2);
+
+    await scheduler.advanceBy(70);
+    assertEquals((await pending).value, 1);
+    await it.return(undefined);
+  });
+});
+
+Deno.test("flowable rateLimit variable cost test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const costs = { getCost: (item: () => unknown) => item() as number };
+    const times: number[] = [];
+    const arr = Flowable
+      .of([1, 3, 1])
+      .rateLimit([RateLimit.variable(4, costs, 100), RateLimit.fixed(10, 100)])
+      .peek(() => times.push(Date.now()))
+      .toArray();
+
+    await scheduler.run();
+    assertEquals(await arr, [1, 3, 1]);
+    assertEquals(times, [0, 0, 25]);
+
+    const rejected = assertRejects(
+      () =>
+        Flowable
+          .of([5])
+          .rateLimit([RateLimit.variable(4, costs, 100)])
+          .toArray(),
+      NonRetryableError,
+    );
+
+    await scheduler.run();
+    await rejected;
+  });
+});
+
+Deno.test("flowable tee test", async () => {
+  const subscriptions = { count: 0 };
+  const [a, b] = counted(subscriptions, 1, 2, 3).tee(2);
+  await delay(20);
+  assertEquals(subscriptions.count, 0);
+
+  const [left, right] = await Promise.all([
+    a.toArray(),
+    b.map(x => x * 10).toArray(),
+  ]);
+
+  assertEquals(left, [1, 2, 3]);
+  assertEquals(right, [10, 20, 30]);
+  assertEquals(subscriptions.count, 1);
+  assertThrows(() => Flowable.of([1]).tee(0));
+});
+
+Deno.test("flowable tee policy test", async () => {
+  const [fast, slowLatest] = Flowable
+    .range(0, 10)
+    .tee(2, { bufferSize: 2, policy: "latest" });
+
+  assertEquals(await fast.toArray(), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  assertEquals(await slowLatest.toArray(), [8, 9]);
+
+  const [first, slowDrop] = Flowable
+    .range(0, 10)
+    .tee(2, { bufferSize: 2, policy: "drop" });
+
+  assertEquals(await first.toArray(), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  assertEquals(await slowDrop.toArray(), [0, 1]);
+});
+
+Deno.test("flowable tee block policy test", async () => {
+  let produced = 0;
+  const [fast, slow] = Flowable
+    .defer(async function* () {
+      for (let i = 0; i < 10; i++) {
+        produced++;
+        yield i;
+      }
+    })
+    .tee(2, { bufferSize: 2 });
+
+  const it = fast.toIterable();
+  await it.next();
+  await it.next();
+  await delay(20);
+  assert(produced <= 4, `produced ${produced}`);
+
+  const [rest, all] = await Promise.all([
+    Array.fromAsync(it),
+    slow.toArray(),
+  ]);
+
+  assertEquals(rest, [2, 3, 4, 5, 6, 7, 8, 9]);
+  assertEquals(all, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+});
+
+Deno.test("flowable tee unsubscribe test", async () => {
+  let finalized = false;
+  const [a, b] = Flowable
+    .interval(5)
+    .finalize(() => { finalized = true; })
+    .tee(2, { policy: "drop" });
+
+  const [first, second] = await Promise.all([a.selectFirst(), b.selectFirst()]);
+  assertEquals(first.value, 0);
+  assertEquals(second.value, 0);
+  await delay(20);
+  assert(finalized);
+});
+
+Deno.test("flowable partition test", async () => {
+  let calls = 0;
+  const [even, odd] = Flowable
+    .range(0, 6)
+    .partition(x => {
+      calls++;
+      return x % 2 === 0;
+    });
+
+  const [evens, odds] = await Promise.all([even.toArray(), odd.toArray()]);
+  assertEquals(evens, [0, 2, 4]);
+  assertEquals(odds, [1, 3, 5]);
+  assertEquals(calls, 6);
+
+  const [failing] = Flowable
+    .of([1])
+    .partition(() => {
+      throw new Error("predicate failure");
+    });
+  await assertRejects(() => failing.toArray(), Error, "predicate failure");
+});
+
+Deno.test("flowable decodeText and splitLines test", async () => {
+  const bytes = new TextEncoder().encode("héllo\r\nwörld\n\nlast");
+  const chunks = [bytes.slice(0, 2), bytes.slice(2, 8), bytes.slice(8)];
+
+  const lines = await Flowable
+    .of(chunks)
+    .decodeText()
+    .splitLines()
+    .toArray();
+  assertEquals(lines, ["héllo", "wörld", "", "last"]);
+
+  const split = await Flowable
+    .of(["a\r", "\nb", "c\n", "d"])
+    .splitLines()
+    .toArray();
+  assertEquals(split, ["a", "bc", "d"]);
+
+  assertThrows(() => Flowable.of(chunks).decodeText("not-an-encoding"), RangeError);
+});
+
+Deno.test("flowable ndjson test", async () => {
+  const errors: MalformedRecordError[] = [];
+  const values = await Flowable
+    .of(['{"a":1}\n{"a"', ':2}\n\nnot json\r\n[3]'])
+    .parseNdjson({ onError: e => errors.push(e) })
+    .toArray();
+
+  assertEquals(values, [{ a: 1 }, { a: 2 }, [3]]);
+  assertEquals(errors.length, 1);
+  assertEquals(errors[0].record, "not json");
+  assertEquals(errors[0].index, 3);
+
+  // malformed records are skipped without a callback, and fail the flow when it throws
+  assertEquals(await Flowable.of(["{}\n{"]).parseNdjson().toArray(), [{}]);
+  await assertRejects(
+    () =>
+      Flowable.of(["{}\n{"]).parseNdjson({ onError: (e) => { throw e; } }).toArray(),
+    MalformedRecordError,
+  );
+
+  const text = await Flowable
+    .of([{ a: 1 }, "b", undefined])
+    .stringifyNdjson()
+    .toArray();
+  assertEquals(text.join(""), '{"a":1}\n"b"\nnull\n');
+});
+
+Deno.test("flowable parseCsv test", async () => {
+  const rows = await Flowable
+    .of(['a,"b,', ' ""quoted""",c\r', '\n"multi\nline",,\n\n1;2'])
+    .parseCsv()
+    .toArray();
+
+  assertEquals(rows, [
+    ["a", 'b, "quoted"', "c"],
+    ["multi\nline", "", ""],
+    ["1;2"],
+  ]);
+
+  const errors: MalformedRecordError[] = [];
+  const records = await Flowable
+    .of(["name;age\nann;3", "0\nbad\"quote;1\nbob;4;x\n", "\"open;1"])
+    .parseCsv({ header: true, delimiter: ";", onError: e => errors.push(e) })
+    .toArray();
+
+  assertEquals(records, [{ name: "ann", age: "30" }]);
+  assertEquals(errors.map(e => [e.index, e.record]), [
+    [2, 'bad"quote;1'],
+    [3, "bob;4;x"],
+    [4, '"open;1'],
+  ]);
+
+  const named = await Flowable
+    .of(["1,2\n"])
+    .parseCsv({ header: ["x", "y"] })
+    .toArray();
+  assertEquals(named, [{ x: "1", y: "2" }]);
+
+  assertEquals(await Flowable.of(['"a"b\n1\n']).parseCsv().toArray(), [["1"]]);
+  await assertRejects(
+    () =>
+      Flowable.of(['"a"b\n']).parseCsv({ onError: (e) => { throw e; } }).toArray(),
+    MalformedRecordError,
+  );
+  assertThrows(() => Flowable.of([""]).parseCsv({ delimiter: '"' }), TypeError);
+});
+
+Deno.test("flowable lengthPrefixedFrames test", async () => {
+  const bytes = new Uint8Array([
+    0, 2, 1, 2,
+    0, 0,
+    0, 5, 9, 9, 9, 9, 9,
+    0, 1, 7,
+    0, 3, 1,
+  ]);
+
+  const errors: MalformedRecordError[] = [];
+  const frames = await Flowable
+    .of([bytes.slice(0, 3), bytes.slice(3, 9), bytes.slice(9)])
+    .lengthPrefixedFrames({
+      lengthBytes: 2,
+      maxFrameLength: 4,
+      onError: e => errors.push(e),
+    })
+    .toArray();
+
+  assertEquals(frames, [new Uint8Array([1, 2]), new Uint8Array(), new Uint8Array([7])]);
+  assertEquals(errors.map(e => e.index), [2, 4]);
+  assertEquals(errors[1].message, "Truncated frame");
+
+  const little = await Flowable
+    .of([new Uint8Array([1, 0, 0, 0, 42])])
+    .lengthPrefixedFrames({ littleEndian: true })
+    .toArray();
+  assertEquals(little, [new Uint8Array([42])]);
+
+  assertEquals(
+    await Flowable.of([new Uint8Array([0, 0, 0, 2, 1])]).lengthPrefixedFrames().toArray(),
+    [],
+  );
+  await assertRejects(
+    () =>
+      Flowable.of([new Uint8Array([0, 0, 0, 2, 1])])
+        .lengthPrefixedFrames({ onError: (e) => { throw e; } })
+        .toArray(),
+    MalformedRecordError,
+  );
+});
+
+Deno.test("flowable processor decoding test", async () => {
+  const processor = Flowable
+    .of<Uint8Array>()
+    .decodeText()
+    .parseNdjson<number>();
+
+  const values = await Flowable
+    .of([new TextEncoder().encode("1\n2\n3")])
+    .pipe(processor)
+    .toArray();
+  assertEquals(values, [1, 2, 3]);
+});
+
+Deno.test("flowable windowCount test", async () => {
+  const windows = await Flowable
+    .range(1, 5)
+    .windowCount(2)
+    .toArray();
+  assertEquals(
+    await Promise.all(windows.map(window => window.toArray())),
+    [[1, 2], [3, 4], [5]],
+  );
+
+  const sliding = await Flowable
+    .range(1, 5)
+    .windowCount(3, { every: 1, as: "array" })
+    .toArray();
+  assertEquals(sliding, [[1, 2, 3], [2, 3, 4], [3, 4, 5], [4, 5], [5]]);
+
+  const hopping = await Flowable
+    .range(1, 7)
+    .windowCount(2, { every: 3, as: "array" })
+    .toArray();
+  assertEquals(hopping, [[1, 2], [4, 5], [7]]);
+
+  assertThrows(() => Flowable.range(1, 5).windowCount(0), TypeError);
+});
+
+Deno.test("flowable windowTime test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(
+      scheduler.cold("-a-b--c-|").windowTime(3, { as: "array" }),
+      "---x--y-(z|)",
+      { values: { x: ["a"], y: ["b"], z: ["c"] } },
+    );
+
+    await scheduler.expect(
+      scheduler.cold("-a-b-c-|").windowTime(4, { every: 2, as: "array" }),
+      "----x-y(z|)",
+      { values: { x: ["a", "b"], y: ["b", "c"], z: ["c"] } },
+    );
+
+    await scheduler.expect(
+      scheduler.cold("-a-----|").windowTime(2, { as: "array" }),
+      "--x-e-e|",
+      { values: { x: ["a"], e: [] } },
+    );
+
+    const windows = await scheduler.record(
+      scheduler.cold("-a-b-|").windowTime(3),
+    );
+    assertEquals(windows.map(n => n.frame), [0, 3, 5]);
+    const [first] = windows;
+    assert(first.kind === "next");
+    assertEquals(await first.value.toArray(), ["a"]);
+  });
+
+  assertThrows(() => Flowable.range(1, 5).windowTime(0), TypeError);
+});
+
+Deno.test("flowable sessionWindow test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(
+      scheduler.cold("-ab----c-|").sessionWindow(2, { as: "array" }),
+      "----x----(y|)",
+      { values: { x: ["a", "b"], y: ["c"] } },
+    );
+
+    const sessions = await scheduler.record(
+      scheduler.cold("-ab----c-|").sessionWindow(2),
+    );
+    const values = await Promise.all(
+      sessions.flatMap(n => n.kind === "next" ? [n.value.toArray()] : []),
+    );
+    assertEquals(values, [["a", "b"], ["c"]]);
+  });
+});
+
+Deno.test("flowable windows emit their items live", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const seen: string[] = [];
+    const windows: Promise<void>[] = [];
+    const done = scheduler.cold("-a-b-c-|").windowTime(4).forEach(window => {
+      windows.push(window.forEach(item => seen.push(`${item}@${Date.now()}`)));
+    });
+
+    await scheduler.run();
+    await done;
+    await Promise.all(windows);
+    assertEquals(seen, ["a@1", "b@3", "c@5"]);
+
+    const start = Date.now();
+    const first = (async () => {
+      for await (
+        const window of Flowable.interval(10).windowCount(3).toIterable()
+      ) {
+        return [await window.toArray(), Date.now() - start];
+      }
+    })();
+
+    await scheduler.run();
+    assertEquals(await first, [[0, 1, 2], 30]);
+    assertEquals(scheduler.pendingTimers, 0);
+  });
+});
+
+Deno.test("flowable processor window test", async () => {
+  const processor = Flowable
+    .of<number>()
+    .windowCount(2, { as: "array" });
+
+  const windows = await Flowable
+    .range(1, 3)
+    .pipe(processor)
+    .toArray();
+  assertEquals(windows, [[1, 2], [3]]);
+});
+
+Deno.test("flowable collect test", async () => {
+  const words = Flowable.of(["apple", "avocado", "banana", "apple"]);
+
+  const byLetter = await words.collect(Collectors.groupingBy(w => w[0]));
+  assert(byLetter.get("a") instanceof List);
+  assertEquals([...byLetter.get("a")!], ["apple", "avocado", "apple"]);
+  assertEquals([...byLetter.get("b")!], ["banana"]);
+
+  const lengths = await words.collect(Collectors.toMap(w => w, w => w.length));
+  assertEquals([...lengths], [["apple", 5], ["avocado", 7], ["banana", 6]]);
+
+  assertEquals([...await words.collect(Collectors.toSet())], ["apple", "avocado", "banana"]);
+  assertEquals(await words.collect(Collectors.count()), 4);
+  assertEquals(await words.collect(Collectors.sum(w => w.length)), 23);
+  assertEquals(await Flowable.range(1, 4).collect(Collectors.sum()), 10);
+
+  assertEquals((await words.collect(Collectors.min())).value, "apple");
+  assertEquals(
+    (await words.collect(Collectors.max((a, b) => a.length - b.length))).value,
+    "avocado",
+  );
+  assert((await Flowable.of<number>([]).collect(Collectors.max())).isNil);
+
+  assertEquals(await Flowable.of<number>([]).collect(Collectors.every(() => false)), true);
+  assertEquals(await Flowable.of<number>([]).collect(Collectors.some(() => true)), false);
+});
+
+Deno.test("flowable collect short-circuit test", async () => {
+  const subs = { count: 0, finalized: false };
+  const source = () =>
+    counted(subs, 1, 2, 3, 4, 5).finalize(() => {
+      subs.finalized = true;
+    });
+
+  let seen = 0;
+  const found = await source()
+    .peek(() => seen++)
+    .collect(Collectors.some(async x => (await Promise.resolve(x)) === 2));
+  assert(found);
+  assertEquals(seen, 2);
+  assert(subs.finalized);
+
+  seen = 0;
+  assertEquals(
+    await source().peek(() => seen++).collect(Collectors.every(x => x < 3)),
+    false,
+  );
+  assertEquals(seen, 3);
+
+  // a token-aware upstream observes the early stop
+  assert(await Flowable.interval(5).collect(Collectors.some(x => x === 2)));
+});
+
+Deno.test("flowable collect cancellation test", async () => {
+  const cancellation = Cancellable.create();
+  cancellation.cancel();
+
+  await assertRejects(
+    () => Flowable.range(1, 3).collect(Collectors.count(), cancellation.token),
+    CancellationError,
+  );
+  assertEquals(
+    await Flowable.range(1, 3).collect(Collectors.count(), {
+      token: cancellation.token,
+      throwOnCancellation: false,
+    }),
+    0,
+  );
+
+  let cancelled = false;
+  const timed = Flowable.interval(10).collect(Collectors.count(), {
+    token: Cancellable.timeout(35),
+    throwOnCancellation: false,
+  });
+  assert((await timed) >= 2);
+
+  const processor = Flowable.of<number>().map(x => x * 2);
+  assertEquals(
+    await processor.collect([1, 2, 3], Collectors.sum(), () => {
+      cancelled = true;
+    }),
+    12,
+  );
+  assert(!cancelled);
+});
+
+Deno.test("flowable distinctUntilChanged test", async () => {
+  assertEquals(
+    await Flowable.of([1, 1, 2, 2, 2, 1, 3, 3]).distinctUntilChanged().toArray(),
+    [1, 2, 1, 3],
+  );
+
+  const points = await Flowable
+    .of([{ x: 1 }, { x: 1 }, { x: 2 }])
+    .distinctUntilChanged((a, b) => a.x === b.x)
+    .toArray();
+  assertEquals(points, [{ x: 1 }, { x: 2 }]);
+
+  const processor = Flowable.of<string>().distinctUntilChanged();
+  assertEquals(await processor.toArray(["a", "a", "b"]), ["a", "b"]);
+});
+
+Deno.test("flowable distinct test", async () => {
+  assertEquals(
+    await Flowable.of([1, 2, 1, 3, 2, 4]).distinct().toArray(),
+    [1, 2, 3, 4],
+  );
+
+  const users = await Flowable
+    .of([{ id: 1, v: "a" }, { id: 2, v: "b" }, { id: 1, v: "c" }])
+    .distinct(u => u.id)
+    .toArray();
+  assertEquals(users.map(u => u.v), ["a", "b"]);
+
+  // 1 is refreshed by its repeat, so 2 is the least recently seen key
+  assertEquals(
+    await Flowable.of([1, 2, 1, 3, 1, 2]).distinct(x => x, { maxKeys: 2 }).toArray(),
+    [1, 2, 3, 2],
+  );
+
+  assertThrows(
+    () => Flowable.of([1]).distinct(x => x, { maxKeys: 0 }),
+    TypeError,
+    "Invalid maxKeys 0",
+  );
+  assertThrows(
+    () => Flowable.of([1]).distinct(x => x, { ttl: -1 }),
+    TypeError,
+    "Invalid duration -1",
+  );
+});
+
+Deno.test("flowable distinct ttl test", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(
+      scheduler.cold("aab-a----a-b|").distinct(x => x, { ttl: 4 }),
+      "a-b------a-b|",
+    );
+  });
+});
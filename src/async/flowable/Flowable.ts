@@ -1,15 +1,43 @@
 import type { BufferStrategyOptions } from "../../buffer/BufferLike.ts";
 import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
 import type { FlowProcessor } from "./FlowProcessor.ts";
-import type { FlowPublisher } from "./FlowPublisher.ts";
+import type {
+  BehaviorSubject,
+  ConnectableFlowPublisher,
+  FlowPublisher,
+  Subject,
+} from "./FlowPublisher.ts";
 import type { IterableLike } from "../IterableLike.ts";
 import type { Observable } from "../_rx.types.ts";
+import type { TimeoutInput } from "../../types.ts";
 
 import {
   CancellationIterableOptions,
   type CancellationIterableOptionsExtended,
 } from "../../cancellation/CancellationIterableOptions.ts";
 import { cancellableIterable } from "../../cancellation/cancellableIterable.ts";
+import { combineLatest, merge, zip } from "./_combinators.ts";
+import { Broadcast, Multicast } from "./_multicast.ts";
+import { retry, retryWhen } from "./_retry.ts";
+import { timeout } from "./_timeout.ts";
+import { groupBy, type GroupByOptions } from "./_groupBy.ts";
+import { liveWindows } from "./_windows.ts";
+import { Fanout } from "./_fanout.ts";
+import { __linkedCancellation } from "../../cancellation/_utils.ts";
+import {
+  fromReadableStream,
+  type ReadableStreamSourceOptions,
+  toReadableStream,
+} from "./_streams.ts";
+import {
+  defer,
+  fail,
+  isFlowPublisher,
+  never,
+  range,
+  ticks,
+  type TimedSourceOptions,
+} from "./_sources.ts";
 import { createObservable } from "../createObservable.ts";
 import { type EventOptions, fromEvent } from "../fromEvent.ts";
 import { fromIterableLike } from "../fromIterableLike.ts";
@@ -17,6 +45,8 @@ import { fromObservable } from "../fromObservable.ts";
 import { Maybe } from "../../Maybe.ts";
 import { Pipeable } from "../pipeable/Pipeable.ts";
 import * as p from "../pipeable/pipeable-funcs.ts";
+import * as codecs from "../pipeable/pipeable-codecs.ts";
+import type { CsvOptions } from "../pipeable/pipeable-codecs.ts";
 
 type FromOptions<T> = {
   bufferStrategy?: BufferStrategyOptions<T>;
@@ -24,6 +54,10 @@ type FromOptions<T> = {
   cancellationToken?: CancellationToken;
 };
 
+type WindowOptions =
+  | { every?: number; as?: "publisher" }
+  | { every?: number; as: "array" };
+
 /**
  * Utility object for creating flow publishers/processors.
  */
@@ -48,6 +82,65 @@ export type Flowable = {
    */
   of<T>(it: IterableLike<T>): FlowPublisher<T>;
 
+  /**
+   * Creates a flow publisher that emits an increasing count, starting at 0,
+   * every `period` milliseconds.
+   * @param period The interval between values in milliseconds.
+   * @param options The cancellation token or deadline that completes the flow publisher.
+   * @returns A flow publisher that emits a count at every interval.
+   */
+  interval(period: number, options?: TimedSourceOptions): FlowPublisher<number>;
+
+  /**
+   * Creates a flow publisher that emits 0 once the initial delay has passed and
+   * then, when a period is provided, an increasing count every period.
+   * @param initialDelay The time to wait before the first value.
+   * @param period The interval between subsequent values in milliseconds.
+   * @param options The cancellation token or deadline that completes the flow publisher.
+   * @returns A flow publisher that emits after the delay and then periodically.
+   */
+  timer(
+    initialDelay: TimeoutInput,
+    period?: number,
+    options?: TimedSourceOptions,
+  ): FlowPublisher<number>;
+
+  /**
+   * Creates a flow publisher that emits a sequence of numbers.
+   * @param start The first number of the sequence.
+   * @param count The number of values to emit.
+   * @returns A flow publisher that emits `count` sequential numbers.
+   */
+  range(start: number, count: number): FlowPublisher<number>;
+
+  /**
+   * Creates a flow publisher that calls the factory for every subscription
+   * and emits the values of the source it returns.
+   * @param factory The function creating the source.
+   * @returns A flow publisher that emits the values of a lazily created source.
+   */
+  defer<T>(factory: () => FlowPublisher<T> | IterableLike<T>): FlowPublisher<T>;
+
+  /**
+   * Creates a flow publisher that completes without emitting any value.
+   * @returns An empty flow publisher.
+   */
+  empty<T = never>(): FlowPublisher<T>;
+
+  /**
+   * Creates a flow publisher that fails with the provided error without
+   * emitting any value.
+   * @param error The error, or a function creating the error for every subscription.
+   * @returns A flow publisher that fails with the error.
+   */
+  error<T = never>(error: unknown | (() => unknown)): FlowPublisher<T>;
+
+  /**
+   * Creates a flow publisher that neither emits nor completes, until cancelled.
+   * @returns A flow publisher that never emits.
+   */
+  never<T = never>(): FlowPublisher<T>;
+
   /**
    * Concatenates multiple flow publishers into a single flow publisher.
    * @param sources The flow publishers to concatenate.
@@ -55,6 +148,90 @@ export type Flowable = {
    */
   concat<T>(...sources: FlowPublisher<T>[]): FlowPublisher<T>;
 
+  /**
+   * Merges multiple flow publishers into a single flow publisher that emits
+   * values from all of them concurrently, in the order they are emitted.
+   * @param sources The flow publishers to merge.
+   * @returns A flow publisher that emits the interleaved values of the provided flow publishers.
+   */
+  merge<T extends unknown[]>(
+    ...sources: { [K in keyof T]: FlowPublisher<T[K]> }
+  ): FlowPublisher<T[number]>;
+
+  /**
+   * Merges multiple flow publishers into a single flow publisher that emits
+   * values from all of them concurrently, in the order they are emitted.
+   * @param sources The flow publishers to merge.
+   * @param options.concurrency The maximum number of flow publishers consumed at once,
+   * the remaining ones are consumed as the active ones complete.
+   * @returns A flow publisher that emits the interleaved values of the provided flow publishers.
+   */
+  merge<T extends unknown[]>(
+    sources: { [K in keyof T]: FlowPublisher<T[K]> },
+    options: { concurrency?: number },
+  ): FlowPublisher<T[number]>;
+
+  /**
+   * Combines multiple flow publishers into a flow publisher of tuples, where
+   * each tuple holds the n-th value of every flow publisher. Completes when
+   * any of the flow publishers completes.
+   * @param sources The flow publishers to zip.
+   * @returns A flow publisher that emits tuples of values in lock-step.
+   */
+  zip<T extends unknown[]>(
+    ...sources: { [K in keyof T]: FlowPublisher<T[K]> }
+  ): FlowPublisher<T>;
+
+  /**
+   * Combines multiple flow publishers into a flow publisher of tuples, where
+   * each tuple holds the latest value of every flow publisher. A tuple is
+   * emitted whenever any flow publisher emits, once all of them have emitted
+   * at least one value.
+   * @param sources The flow publishers to combine.
+   * @returns A flow publisher that emits tuples of the latest values.
+   */
+  combineLatest<T extends unknown[]>(
+    ...sources: { [K in keyof T]: FlowPublisher<T[K]> }
+  ): FlowPublisher<T>;
+
+  /**
+   * Creates a subject, a flow publisher whose values are pushed with `next`
+   * and terminated with `error` or `complete`. Each consumer receives the
+   * values pushed while it is subscribed through its own buffer, which applies
+   * the buffer strategy once `bufferSize` values are pending. A consumer that
+   * falls behind a "fixed" buffer fails with a `QueueFullError`.
+   * @param options The buffer size (unbounded by default) and strategy of each consumer.
+   * @returns A new subject.
+   */
+  subject<T>(options?: {
+    bufferSize?: number;
+    bufferStrategy?: BufferStrategyOptions<T>;
+  }): Subject<T>;
+
+  /**
+   * Creates a subject that holds a current value, starting with the initial
+   * value, which is emitted to each new consumer first.
+   * @param initialValue The current value until another value is pushed.
+   * @param options The buffer size (unbounded by default) and strategy of each consumer.
+   * @returns A new behavior subject.
+   */
+  behaviorSubject<T>(initialValue: T, options?: {
+    bufferSize?: number;
+    bufferStrategy?: BufferStrategyOptions<T>;
+  }): BehaviorSubject<T>;
+
+  /**
+   * Creates a subject that emits the latest `count` values to each new
+   * consumer, including after the subject terminated.
+   * @param count The number of values replayed.
+   * @param options The buffer size (unbounded by default) and strategy of each consumer.
+   * @returns A new replay subject.
+   */
+  replaySubject<T>(count: number, options?: {
+    bufferSize?: number;
+    bufferStrategy?: BufferStrategyOptions<T>;
+  }): Subject<T>;
+
   /**
    * Creates a flow publisher that emits values from an async generator.
    * @param generator The async generator function.
@@ -75,6 +252,20 @@ export type Flowable = {
     options?: FromOptions<T>,
   ): FlowPublisher<T>;
 
+  /**
+   * Creates a flow publisher that emits the chunks of a `ReadableStream`,
+   * reading the next chunk only when it is pulled. When the subscription stops
+   * early the stream is cancelled, unless `preventCancel` is set, in which case
+   * its lock is only released. A stream can only be consumed once.
+   * @param stream The stream to read from.
+   * @param options The cancel behavior and an optional cancellation token that completes the publisher.
+   * @returns A flow publisher that emits the chunks of the stream.
+   */
+  fromReadableStream<T>(
+    stream: ReadableStream<T>,
+    options?: ReadableStreamSourceOptions,
+  ): FlowPublisher<T>;
+
   /**
    * Creates a flow publisher that emits values from a DOM event.
    * @param type The type of the DOM event.
@@ -126,6 +317,36 @@ export const Flowable = Object.freeze({
 
     return createFlowPublisher<T>(() => fromIterableLike<T>(it));
   },
+  interval(
+    period: number,
+    options?: TimedSourceOptions,
+  ): FlowPublisher<number> {
+    return createFlowPublisher(ticks(period, period, options));
+  },
+  timer(
+    initialDelay: TimeoutInput,
+    period?: number,
+    options?: TimedSourceOptions,
+  ): FlowPublisher<number> {
+    return createFlowPublisher(ticks(initialDelay, period, options));
+  },
+  range(start: number, count: number): FlowPublisher<number> {
+    return createFlowPublisher(range(start, count));
+  },
+  defer<T>(
+    factory: () => FlowPublisher<T> | IterableLike<T>,
+  ): FlowPublisher<T> {
+    return createFlowPublisher(defer(factory));
+  },
+  empty<T>(): FlowPublisher<T> {
+    return Flowable.of<T>([]);
+  },
+  error<T>(error: unknown): FlowPublisher<T> {
+    return createFlowPublisher(fail<T>(error));
+  },
+  never<T>(): FlowPublisher<T> {
+    return createFlowPublisher(never<T>());
+  },
   concat<T>(...sources: FlowPublisher<T>[]): FlowPublisher<T> {
     return createFlowPublisher<T>(async function* () {
       for (const source of sources) {
@@ -133,6 +354,62 @@ export const Flowable = Object.freeze({
       }
     });
   },
+  merge<T>(
+    // deno-lint-ignore no-explicit-any
+    ...args: any[]
+  ): FlowPublisher<T> {
+    const [sources, options] = Array.isArray(args[0])
+      ? [args[0] as FlowPublisher<T>[], args[1] as { concurrency?: number }]
+      : [args as FlowPublisher<T>[], undefined];
+
+    const concurrency = options?.concurrency ?? Infinity;
+    if (
+      concurrency < 1 ||
+      (concurrency !== Infinity && !Number.isInteger(concurrency))
+    ) {
+      throw new TypeError(`Invalid concurrency ${concurrency}`);
+    }
+
+    return createFlowPublisher<T>(merge(sources, concurrency));
+  },
+  zip<T extends unknown[]>(
+    ...sources: FlowPublisher<unknown>[]
+  ): FlowPublisher<T> {
+    return createFlowPublisher<T>(zip<T>(sources));
+  },
+  combineLatest<T extends unknown[]>(
+    ...sources: FlowPublisher<unknown>[]
+  ): FlowPublisher<T> {
+    return createFlowPublisher<T>(combineLatest<T>(sources));
+  },
+  subject<T>(options?: {
+    bufferSize?: number;
+    bufferStrategy?: BufferStrategyOptions<T>;
+  }): Subject<T> {
+    return createSubject(new Broadcast<T>({ ...options, replay: 0 }));
+  },
+  behaviorSubject<T>(initialValue: T, options?: {
+    bufferSize?: number;
+    bufferStrategy?: BufferStrategyOptions<T>;
+  }): BehaviorSubject<T> {
+    const broadcast = new Broadcast<T>({ ...options, replay: 1 }, [
+      initialValue,
+    ]);
+    return Object.defineProperty(createSubject(broadcast), "value", {
+      get: () => broadcast.latest,
+      enumerable: true,
+    }) as BehaviorSubject<T>;
+  },
+  replaySubject<T>(count: number, options?: {
+    bufferSize?: number;
+    bufferStrategy?: BufferStrategyOptions<T>;
+  }): Subject<T> {
+    if (!(count >= 1) || !Number.isInteger(count)) {
+      throw new TypeError(`Invalid replay count ${count}`);
+    }
+
+    return createSubject(new Broadcast<T>({ ...options, replay: count }));
+  },
   fromGenerator<T>(generator: () => AsyncGenerator<T>): FlowPublisher<T> {
     return createFlowPublisher(generator);
   },
@@ -142,6 +419,12 @@ export const Flowable = Object.freeze({
   ): FlowPublisher<T> {
     return Flowable.of(fromObservable<T>(observable, options));
   },
+  fromReadableStream<T>(
+    stream: ReadableStream<T>,
+    options?: ReadableStreamSourceOptions,
+  ): FlowPublisher<T> {
+    return createFlowPublisher(fromReadableStream(stream, options));
+  },
   fromEvent<T extends Event>(
     // deno-lint-ignore no-explicit-any
     ...args: any[]
@@ -151,7 +434,7 @@ export const Flowable = Object.freeze({
 }) as Flowable;
 
 function createFlowPublisher<T>(
-  generator: () => AsyncGenerator<T>,
+  generator: (cancellationToken?: CancellationToken) => AsyncGenerator<T>,
   connectable?: FlowProcessor<T, T>,
 ): FlowPublisher<T> {
   connectable ??= createFlowProcessor<T>();
@@ -169,6 +452,15 @@ function createFlowPublisher<T>(
         connectable,
       ) as unknown as FlowPublisher<R>;
     },
+    mapConcurrent: (mapper, options) => {
+      connectable.mapConcurrent(mapper, options);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    rateLimit: (limits) => {
+      connectable.rateLimit(limits);
+      return createFlowPublisher(generator, connectable);
+    },
     compose: <R>(
       mapper: (t: T, index: number) => AsyncGenerator<R>,
     ): FlowPublisher<R> => {
@@ -178,10 +470,36 @@ function createFlowPublisher<T>(
         connectable,
       ) as unknown as FlowPublisher<R>;
     },
+    switchMap: (mapper) => {
+      connectable.switchMap(mapper);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    exhaustMap: (mapper) => {
+      connectable.exhaustMap(mapper);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
     peek: (cb) => {
       connectable.peek(cb);
       return createFlowPublisher(generator, connectable);
     },
+    distinctUntilChanged: (equals) => {
+      connectable.distinctUntilChanged(equals);
+      return createFlowPublisher(generator, connectable);
+    },
+    distinct: (keyFn, options) => {
+      connectable.distinct(keyFn, options);
+      return createFlowPublisher(generator, connectable);
+    },
+    scan: <R>(
+      accumulator: (acc: R, item: T, index: number) => Promise<R> | R,
+      seed: R,
+    ) => {
+      connectable.scan(accumulator, seed);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
     skipUntil: (predicate) => {
       connectable.skipUntil(predicate);
       return createFlowPublisher(generator, connectable);
@@ -194,11 +512,171 @@ function createFlowPublisher<T>(
       connectable.resumeOnError(onError);
       return createFlowPublisher(generator, connectable);
     },
+    catchError: (selector) => {
+      connectable.catchError(selector);
+      return createFlowPublisher(generator, connectable);
+    },
+    onErrorReturn: (value) => {
+      connectable.onErrorReturn(value);
+      return createFlowPublisher(generator, connectable);
+    },
+    finalize: (cb) => {
+      connectable.finalize(cb);
+      return createFlowPublisher(generator, connectable);
+    },
+    doOnError: (cb) => {
+      connectable.doOnError(cb);
+      return createFlowPublisher(generator, connectable);
+    },
+    doOnComplete: (cb) => {
+      connectable.doOnComplete(cb);
+      return createFlowPublisher(generator, connectable);
+    },
+    retry: (settings) => {
+      return createFlowPublisher(retry(flowable, settings));
+    },
+    retryWhen: (shouldRetry) => {
+      return createFlowPublisher(retryWhen(flowable, shouldRetry));
+    },
     chunk: (size) => {
       connectable.chunk(size);
       // deno-lint-ignore no-explicit-any
       return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
     },
+    debounce: (ms) => {
+      connectable.debounce(ms);
+      return createFlowPublisher(generator, connectable);
+    },
+    throttle: (ms, options) => {
+      connectable.throttle(ms, options);
+      return createFlowPublisher(generator, connectable);
+    },
+    sample: (ms) => {
+      connectable.sample(ms);
+      return createFlowPublisher(generator, connectable);
+    },
+    bufferTime: (ms, maxSize) => {
+      connectable.bufferTime(ms, maxSize);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    windowCount: (size: number, options?: WindowOptions) => {
+      connectable.windowCount(size, options);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    windowTime: (ms: number, options?: WindowOptions) => {
+      connectable.windowTime(ms, options);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    sessionWindow: (gapMs: number, options?: WindowOptions) => {
+      connectable.sessionWindow(gapMs, options);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    decodeText: (encoding, options) => {
+      connectable.decodeText(encoding, options);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    splitLines: () => {
+      connectable.splitLines();
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    parseNdjson: (options) => {
+      connectable.parseNdjson(options);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    stringifyNdjson: () => {
+      connectable.stringifyNdjson();
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    parseCsv: (options?: CsvOptions) => {
+      connectable.parseCsv(options as CsvOptions & { header: true });
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    lengthPrefixedFrames: (options) => {
+      connectable.lengthPrefixedFrames(options);
+      // deno-lint-ignore no-explicit-any
+      return createFlowPublisher(generator, connectable) as FlowPublisher<any>;
+    },
+    timeout: (options) => {
+      return createFlowPublisher(timeout(flowable, options));
+    },
+    tee: (count, options) => {
+      return new Fanout(flowable, count, undefined, options).branches
+        .map((branch) => createFlowPublisher(branch));
+    },
+    partition: (predicate, options) => {
+      const [matching, rest] = new Fanout(
+        flowable,
+        2,
+        async (item) => (await predicate(item)) ? [0] : [1],
+        options,
+      ).branches;
+      return [createFlowPublisher(matching), createFlowPublisher(rest)];
+    },
+    groupBy: (key: unknown, options?: GroupByOptions) => {
+      const keySelector = typeof key === "function"
+        ? key as (item: T) => unknown
+        : (item: T) => item[key as keyof T];
+
+      return createFlowPublisher(groupBy(flowable, keySelector, options))
+        .map(({ key, subscribe }) => ({
+          key,
+          publisher: createFlowPublisher(subscribe),
+          // deno-lint-ignore no-explicit-any
+        })) as FlowPublisher<any>;
+    },
+    share: (options) => {
+      return createFlowPublisher(
+        new Multicast(flowable, {
+          ...options,
+          refCount: true,
+          replay: 0,
+          last: false,
+        }).subscribe,
+      );
+    },
+    replay: (count, options) => {
+      if (!(count >= 0)) {
+        throw new TypeError(`Invalid replay count ${count}`);
+      }
+
+      return createFlowPublisher(
+        new Multicast(flowable, {
+          ...options,
+          refCount: true,
+          replay: count,
+          last: false,
+        }).subscribe,
+      );
+    },
+    publish: (options) => {
+      return createConnectableFlowPublisher(
+        new Multicast(flowable, {
+          ...options,
+          refCount: false,
+          replay: 0,
+          last: false,
+        }),
+      );
+    },
+    publishLast: (options) => {
+      return createConnectableFlowPublisher(
+        new Multicast(flowable, {
+          ...options,
+          refCount: false,
+          replay: 1,
+          last: true,
+        }),
+      );
+    },
     pipe: (connectable) => {
       return Flowable.of(
         connectable.toIterable(
@@ -208,35 +686,62 @@ function createFlowPublisher<T>(
     },
     toIterable: (options?) => {
       return connectable.toIterable(
-        generator(),
+        generator(tokenOf(options)),
         options as CancellationIterableOptions,
       );
     },
     toArray: (options) => {
       return connectable.toArray(
-        generator(),
+        generator(tokenOf(options)),
         options as CancellationIterableOptions,
       );
     },
     forEach: (cb, options) => {
       return connectable.forEach(
-        generator(),
+        generator(tokenOf(options)),
         cb,
         options as CancellationIterableOptions,
       );
     },
+    reduce: (accumulator, seed, options) => {
+      return connectable.reduce(
+        generator(tokenOf(options)),
+        accumulator,
+        seed,
+        options as CancellationIterableOptions,
+      );
+    },
+    collect: async (collector, options) => {
+      // stops the upstream once the collector short-circuits
+      const upstream = __linkedCancellation(tokenOf(options));
+      try {
+        return await connectable.collect(
+          generator(upstream.token),
+          collector,
+          options as CancellationIterableOptions,
+        );
+      } finally {
+        upstream.cancel();
+      }
+    },
+    toReadableStream: (options) => {
+      return toReadableStream(
+        (token) => flowable.toIterable({ token, throwOnCancellation: true }),
+        options?.highWaterMark,
+      );
+    },
     toObservable: () => {
       return connectable.toObservable(generator());
     },
     selectFirst: (options) => {
       return connectable.selectFirst(
-        generator(),
+        generator(tokenOf(options)),
         options as CancellationIterableOptions,
       );
     },
     selectLast: (options) => {
       return connectable.selectLast(
-        generator(),
+        generator(tokenOf(options)),
         options as CancellationIterableOptions,
       );
     },
@@ -245,6 +750,23 @@ function createFlowPublisher<T>(
   return flowable;
 }
 
+function createConnectableFlowPublisher<T>(
+  multicast: Multicast<T>,
+): ConnectableFlowPublisher<T> {
+  return Object.assign(createFlowPublisher(multicast.subscribe), {
+    connect: multicast.connect,
+  });
+}
+
+function createSubject<T>(broadcast: Broadcast<T>): Subject<T> {
+  return {
+    next: broadcast.next,
+    error: broadcast.error,
+    complete: broadcast.complete,
+    publisher: createFlowPublisher(broadcast.subscribe),
+  };
+}
+
 function createFlowProcessor<S, T = S>(
   // deno-lint-ignore no-explicit-any
   pipeables = new Array<Pipeable<any>>(),
@@ -260,14 +782,59 @@ function createFlowProcessor<S, T = S>(
       pipeablesCopy.push(p.map(mapper));
       return createFlowProcessor<S, R>(pipeablesCopy);
     },
+    mapConcurrent: (mapper, options) => {
+      pipeablesCopy.push(p.mapConcurrent(mapper, options));
+      return createFlowProcessor(pipeablesCopy);
+    },
+    rateLimit: (limits) => {
+      pipeablesCopy.push(p.rateLimit(limits));
+      return createFlowProcessor(pipeablesCopy);
+    },
     compose: <R>(mapper: (t: T, index: number) => AsyncGenerator<R>) => {
       pipeablesCopy.push(p.compose(mapper));
       return createFlowProcessor<S, R>(pipeablesCopy);
     },
+    switchMap: <R>(
+      mapper: (
+        t: T,
+        cancellationToken: CancellationToken,
+      ) => FlowPublisher<R> | IterableLike<R>,
+    ) => {
+      pipeablesCopy.push(
+        p.switchMap((t: T, token) => iterableOf(mapper(t, token), token)),
+      );
+      return createFlowProcessor<S, R>(pipeablesCopy);
+    },
+    exhaustMap: <R>(
+      mapper: (
+        t: T,
+        cancellationToken: CancellationToken,
+      ) => FlowPublisher<R> | IterableLike<R>,
+    ) => {
+      pipeablesCopy.push(
+        p.exhaustMap((t: T, token) => iterableOf(mapper(t, token), token)),
+      );
+      return createFlowProcessor<S, R>(pipeablesCopy);
+    },
     peek: (cb) => {
       pipeablesCopy.push(p.peek(cb));
       return createFlowProcessor(pipeablesCopy);
     },
+    distinctUntilChanged: (equals) => {
+      pipeablesCopy.push(p.distinctUntilChanged(equals));
+      return createFlowProcessor(pipeablesCopy);
+    },
+    distinct: (keyFn, options) => {
+      pipeablesCopy.push(p.distinct(keyFn, options));
+      return createFlowProcessor(pipeablesCopy);
+    },
+    scan: <R>(
+      accumulator: (acc: R, t: T, index: number) => Promise<R> | R,
+      seed: R,
+    ) => {
+      pipeablesCopy.push(p.scan(accumulator, seed));
+      return createFlowProcessor<S, R>(pipeablesCopy);
+    },
     skipUntil: (predicate) => {
       pipeablesCopy.push(p.skipUntil(predicate));
       return createFlowProcessor(pipeablesCopy);
@@ -280,10 +847,97 @@ function createFlowProcessor<S, T = S>(
       pipeablesCopy.push(p.resumeOnError(onError));
       return createFlowProcessor(pipeablesCopy);
     },
+    catchError: (selector) => {
+      pipeablesCopy.push(
+        p.catchError((error) => iterableOf(selector(error))),
+      );
+      return createFlowProcessor(pipeablesCopy);
+    },
+    onErrorReturn: (value) => {
+      pipeablesCopy.push(p.onErrorReturn(value));
+      return createFlowProcessor(pipeablesCopy);
+    },
+    finalize: (cb) => {
+      pipeablesCopy.push(p.finalize(cb));
+      return createFlowProcessor(pipeablesCopy);
+    },
+    doOnError: (cb) => {
+      pipeablesCopy.push(p.doOnError(cb));
+      return createFlowProcessor(pipeablesCopy);
+    },
+    doOnComplete: (cb) => {
+      pipeablesCopy.push(p.doOnComplete(cb));
+      return createFlowProcessor(pipeablesCopy);
+    },
     chunk: (size) => {
       pipeablesCopy.push(p.chunk(size));
       return createFlowProcessor(pipeablesCopy);
     },
+    debounce: (ms) => {
+      pipeablesCopy.push(p.debounce(ms));
+      return createFlowProcessor(pipeablesCopy);
+    },
+    throttle: (ms, options) => {
+      pipeablesCopy.push(p.throttle(ms, options));
+      return createFlowProcessor(pipeablesCopy);
+    },
+    sample: (ms) => {
+      pipeablesCopy.push(p.sample(ms));
+      return createFlowProcessor(pipeablesCopy);
+    },
+    bufferTime: (ms, maxSize) => {
+      pipeablesCopy.push(p.bufferTime(ms, maxSize));
+      return createFlowProcessor(pipeablesCopy);
+    },
+    windowCount: (size: number, options?: WindowOptions) => {
+      return windowsOf(
+        pipeablesCopy,
+        p.windowCountEvents(size, options?.every),
+        options,
+      );
+    },
+    windowTime: (ms: number, options?: WindowOptions) => {
+      return windowsOf(
+        pipeablesCopy,
+        p.windowTimeEvents(ms, options?.every),
+        options,
+      );
+    },
+    sessionWindow: (gapMs: number, options?: WindowOptions) => {
+      return windowsOf(pipeablesCopy, p.sessionWindowEvents(gapMs), options);
+    },
+    decodeText: (encoding, options) => {
+      pipeablesCopy.push(codecs.decodeText(encoding, options));
+      // deno-lint-ignore no-explicit-any
+      return createFlowProcessor(pipeablesCopy) as FlowProcessor<S, any>;
+    },
+    splitLines: () => {
+      pipeablesCopy.push(codecs.splitLines());
+      // deno-lint-ignore no-explicit-any
+      return createFlowProcessor(pipeablesCopy) as FlowProcessor<S, any>;
+    },
+    parseNdjson: (options) => {
+      pipeablesCopy.push(codecs.parseNdjson(options));
+      // deno-lint-ignore no-explicit-any
+      return createFlowProcessor(pipeablesCopy) as FlowProcessor<S, any>;
+    },
+    stringifyNdjson: () => {
+      pipeablesCopy.push(codecs.stringifyNdjson());
+      // deno-lint-ignore no-explicit-any
+      return createFlowProcessor(pipeablesCopy) as FlowProcessor<S, any>;
+    },
+    parseCsv: (options?: CsvOptions) => {
+      pipeablesCopy.push(
+        codecs.parseCsv(options as CsvOptions & { header: true }),
+      );
+      // deno-lint-ignore no-explicit-any
+      return createFlowProcessor(pipeablesCopy) as FlowProcessor<S, any>;
+    },
+    lengthPrefixedFrames: (options) => {
+      pipeablesCopy.push(codecs.lengthPrefixedFrames(options));
+      // deno-lint-ignore no-explicit-any
+      return createFlowProcessor(pipeablesCopy) as FlowProcessor<S, any>;
+    },
     toIterable(input, options) {
       return iterateWithPipelines(input, pipeablesCopy, options);
     },
@@ -315,6 +969,36 @@ function createFlowProcessor<S, T = S>(
         cb(item as T);
       }
     },
+    async reduce(input, accumulator, seed, options) {
+      let acc = seed;
+      let index = 0;
+      for await (
+        const item of iterateWithPipelines(input, pipeablesCopy, options, {
+          throwOnCancellation: true,
+        })
+      ) {
+        acc = await accumulator(acc, item as T, index++);
+      }
+      return acc;
+    },
+    async collect(input, collector, options) {
+      let acc = collector.supplier();
+      if (collector.isDone?.(acc) === true) {
+        return collector.finisher(acc);
+      }
+
+      for await (
+        const item of iterateWithPipelines(input, pipeablesCopy, options, {
+          throwOnCancellation: true,
+        })
+      ) {
+        acc = await collector.accumulator(acc, item as T);
+        if (collector.isDone?.(acc) === true) {
+          break;
+        }
+      }
+      return collector.finisher(acc);
+    },
     async selectFirst(input, options) {
       const gen = iterateWithPipelines(input, pipeablesCopy, options, {
         throwOnCancellation: true,
@@ -338,6 +1022,19 @@ function createFlowProcessor<S, T = S>(
       }
       return Maybe.of(lastItem);
     },
+    toTransformStream: () => {
+      const { readable, writable } = new TransformStream<S, S>();
+      return {
+        readable: toReadableStream(
+          (token) =>
+            iterateWithPipelines<S, T>(readable, pipeablesCopy, {
+              token,
+              throwOnCancellation: true,
+            }),
+        ),
+        writable,
+      };
+    },
     toObservable: (input): Observable<T> => {
       return createObservable<T>((subscriber) => {
         (async () => {
@@ -372,3 +1069,46 @@ function iterateWithPipelines<S, T = S>(
     CancellationIterableOptions.from(options, defaults),
   );
 }
+
+/**
+ * Emits the windows described by the events as live publishers of their
+ * items, or as arrays when requested.
+ */
+function windowsOf<S>(
+  // deno-lint-ignore no-explicit-any
+  pipeables: Array<Pipeable<any>>,
+  events: Pipeable<unknown, p.WindowEvent<unknown>>,
+  options?: WindowOptions,
+  // deno-lint-ignore no-explicit-any
+): FlowProcessor<S, any> {
+  if (options?.as === "array") {
+    pipeables.push(p.collectWindows(events));
+  } else {
+    pipeables.push(
+      liveWindows(events),
+      p.map((subscribe: (token?: CancellationToken) => AsyncGenerator<S>) =>
+        createFlowPublisher(subscribe)
+      ),
+    );
+  }
+
+  return createFlowProcessor(pipeables);
+}
+
+function iterableOf<T>(
+  source: FlowPublisher<T> | IterableLike<T>,
+  cancellationToken?: CancellationToken,
+): IterableLike<T> {
+  return isFlowPublisher(source)
+    ? source.toIterable({
+      token: cancellationToken,
+      throwOnCancellation: false,
+    })
+    : source;
+}
+
+function tokenOf(
+  options?: CancellationIterableOptionsExtended,
+): CancellationToken | undefined {
+  return CancellationIterableOptions.from(options).token;
+}
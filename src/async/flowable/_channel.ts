@@ -0,0 +1,67 @@
+import type { BufferStrategy } from "../../buffer/BufferLike.ts";
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+import type { AsyncQueue } from "../queue/types.ts";
+import { asyncQueue } from "../queue/asyncQueue.ts";
+import { QueueClosedError } from "../queue/errors.ts";
+import { type Deferred, deferred } from "../Deferred.ts";
+
+/**
+ * A bounded buffer between a producer and a single subscriber. With the
+ * "fixed" strategy the producer waits for room, otherwise the buffer strategy
+ * is applied once the buffer is full.
+ */
+export class Channel<T> {
+  readonly #queue: AsyncQueue<T>;
+  #error: { reason: unknown } | undefined;
+  #space: Deferred<void> | undefined;
+
+  constructor(bufferSize: number, bufferStrategy: BufferStrategy = "fixed") {
+    this.#queue = asyncQueue<T>({ bufferSize, bufferStrategy });
+    this.subscribe = this.subscribe.bind(this);
+  }
+
+  get isCompleted(): boolean {
+    return this.#queue.state !== "rw";
+  }
+
+  async push(item: T, cancellationToken: CancellationToken): Promise<void> {
+    while (!this.isCompleted && !this.#queue.tryEnqueue(item)) {
+      this.#space = deferred<void>(cancellationToken);
+      await this.#space.promise;
+    }
+  }
+
+  complete(error?: { reason: unknown }): void {
+    if (!this.isCompleted) {
+      this.#error = error;
+      this.#queue.setReadOnly();
+    }
+    this.#space?.resolve();
+  }
+
+  async *subscribe(cancellationToken?: CancellationToken): AsyncGenerator<T> {
+    try {
+      while (true) {
+        let item: T;
+        try {
+          item = await this.#queue.dequeue(cancellationToken);
+        } catch (e) {
+          if (e instanceof QueueClosedError) {
+            break;
+          }
+          throw e;
+        }
+        this.#space?.resolve();
+        yield item;
+      }
+
+      if (this.#error) {
+        throw this.#error.reason;
+      }
+    } finally {
+      // an unsubscribed channel no longer receives items
+      this.complete();
+      this.#queue.close();
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+import type { FlowPublisher } from "./FlowPublisher.ts";
+import { __linkedCancellation } from "../../cancellation/_utils.ts";
+
+/**
+ * Interleaves the items of the sources as they are emitted, subscribing to at
+ * most `concurrency` sources at a time.
+ */
+export function merge<T>(
+  sources: FlowPublisher<T>[],
+  concurrency: number,
+): (cancellationToken?: CancellationToken) => AsyncGenerator<T> {
+  return async function* (cancellationToken) {
+    const subscriptions = new Subscriptions<T>(cancellationToken);
+    let next = 0;
+    let active = 0;
+    try {
+      for (; next < sources.length && active < concurrency; next++, active++) {
+        subscriptions.pull(subscriptions.subscribe(sources[next]));
+      }
+
+      while (subscriptions.hasPending) {
+        const { index, result } = await subscriptions.next();
+        if (result.done) {
+          active--;
+          if (next < sources.length) {
+            subscriptions.pull(subscriptions.subscribe(sources[next++]));
+            active++;
+          }
+          continue;
+        }
+
+        yield result.value;
+        subscriptions.pull(index);
+      }
+    } finally {
+      await subscriptions.dispose();
+    }
+  };
+}
+
+/**
+ * Emits tuples made of the n-th item of every source, completing as soon as
+ * any of the sources completes.
+ */
+export function zip<T extends unknown[]>(
+  sources: FlowPublisher<unknown>[],
+): (cancellationToken?: CancellationToken) => AsyncGenerator<T> {
+  return async function* (cancellationToken) {
+    if (sources.length === 0) {
+      return;
+    }
+
+    const subscriptions = new Subscriptions<unknown>(cancellationToken);
+    try {
+      for (const source of sources) {
+        subscriptions.subscribe(source);
+      }
+
+      const values = new Array<unknown>(sources.length);
+      while (true) {
+        for (let i = 0; i < sources.length; i++) {
+          subscriptions.pull(i);
+        }
+
+        while (subscriptions.hasPending) {
+          const { index, result } = await subscriptions.next();
+          if (result.done) {
+            return;
+          }
+          values[index] = result.value;
+        }
+
+        yield values.slice() as T;
+      }
+    } finally {
+      await subscriptions.dispose();
+    }
+  };
+}
+
+/**
+ * Emits tuples of the latest item of every source whenever any source emits,
+ * once every source has emitted at least once. Completes when all sources
+ * complete, or immediately when a source completes without emitting.
+ */
+export function combineLatest<T extends unknown[]>(
+  sources: FlowPublisher<unknown>[],
+): (cancellationToken?: CancellationToken) => AsyncGenerator<T> {
+  return async function* (cancellationToken) {
+    const subscriptions = new Subscriptions<unknown>(cancellationToken);
+    const values = new Array<unknown>(sources.length);
+    const seen = new Array<boolean>(sources.length).fill(false);
+    let seenCount = 0;
+    try {
+      for (const source of sources) {
+        subscriptions.pull(subscriptions.subscribe(source));
+      }
+
+      while (subscriptions.hasPending) {
+        const { index, result } = await subscriptions.next();
+        if (result.done) {
+          if (!seen[index]) {
+            return;
+          }
+          continue;
+        }
+
+        values[index] = result.value;
+        if (!seen[index]) {
+          seen[index] = true;
+          seenCount++;
+        }
+
+        if (seenCount === sources.length) {
+          yield values.slice() as T;
+        }
+
+        subscriptions.pull(index);
+      }
+    } finally {
+      await subscriptions.dispose();
+    }
+  };
+}
+
+type Pulled<T> = { index: number; result: IteratorResult<T> };
+
+/**
+ * Tracks the iterators of the subscribed sources along with their in-flight
+ * pulls, and tears all of them down together.
+ */
+class Subscriptions<T> {
+  readonly #cancellation: ReturnType<typeof __linkedCancellation>;
+  readonly #iterators = new Array<AsyncGenerator<T>>();
+  readonly #pulls = new Map<number, Promise<Pulled<T>>>();
+
+  constructor(cancellationToken?: CancellationToken) {
+    this.#cancellation = __linkedCancellation(cancellationToken);
+  }
+
+  get hasPending(): boolean {
+    return this.#pulls.size > 0;
+  }
+
+  subscribe(source: FlowPublisher<T>): number {
+    return this.#iterators.push(
+      source.toIterable({
+        token: this.#cancellation.token,
+        throwOnCancellation: true,
+      }),
+    ) - 1;
+  }
+
+  pull(index: number): void {
+    this.#pulls.set(
+      index,
+      this.#iterators[index].next().then((result) => ({ index, result })),
+    );
+  }
+
+  async next(): Promise<Pulled<T>> {
+    const pulled = await Promise.race(this.#pulls.values());
+    this.#pulls.delete(pulled.index);
+    return pulled;
+  }
+
+  async dispose(): Promise<void> {
+    this.#cancellation.cancel();
+    for (const pull of this.#pulls.values()) {
+      pull.catch(() => {});
+    }
+    this.#pulls.clear();
+
+    await Promise.allSettled(this.#iterators.map((it) => it.return(undefined)));
+  }
+}
@@ -0,0 +1,107 @@
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+import type { FlowPublisher } from "./FlowPublisher.ts";
+import { Channel } from "./_channel.ts";
+import { __linkedCancellation } from "../../cancellation/_utils.ts";
+
+export type FanoutOptions = {
+  /** the number of items buffered per branch, 16 by default */
+  bufferSize?: number;
+  /** what happens once the buffer of a branch is full, "block" by default */
+  policy?: "block" | "drop" | "latest";
+};
+
+/**
+ * Routes each item of the source to the branches chosen by the router, or to
+ * every branch when there is no router. The
+ * source is subscribed to once the first branch is consumed, and stopped once
+ * every branch has been unsubscribed. Each branch can be consumed once.
+ */
+export class Fanout<T> {
+  readonly #source: FlowPublisher<T>;
+  readonly #route: ((item: T) => Promise<number[]> | number[]) | undefined;
+  readonly #channels: Channel<T>[];
+  #connection: ReturnType<typeof __linkedCancellation> | undefined;
+
+  readonly branches: Array<
+    (cancellationToken?: CancellationToken) => AsyncGenerator<T>
+  >;
+
+  constructor(
+    source: FlowPublisher<T>,
+    count: number,
+    route: ((item: T) => Promise<number[]> | number[]) | undefined,
+    options?: FanoutOptions,
+  ) {
+    const bufferSize = options?.bufferSize ?? 16;
+    const policy = options?.policy ?? "block";
+
+    if (!(count >= 1) || !Number.isInteger(count)) {
+      throw new TypeError(`Invalid branch count ${count}`);
+    }
+
+    if (!(bufferSize >= 1) || !Number.isInteger(bufferSize)) {
+      throw new TypeError(`Invalid buffer size ${bufferSize}`);
+    }
+
+    this.#source = source;
+    this.#route = route;
+    this.#channels = Array.from(
+      { length: count },
+      () => new Channel<T>(bufferSize, policy === "block" ? "fixed" : policy),
+    );
+    this.branches = this.#channels.map((channel) => (cancellationToken) =>
+      this.#subscribe(channel, cancellationToken)
+    );
+  }
+
+  async *#subscribe(
+    channel: Channel<T>,
+    cancellationToken?: CancellationToken,
+  ): AsyncGenerator<T> {
+    this.#connect();
+    try {
+      yield* channel.subscribe(cancellationToken);
+    } finally {
+      if (this.#channels.every((c) => c.isCompleted)) {
+        this.#connection?.cancel();
+      }
+    }
+  }
+
+  #connect(): void {
+    if (this.#connection) {
+      return;
+    }
+
+    const connection = __linkedCancellation();
+    this.#connection = connection;
+
+    (async () => {
+      let error: { reason: unknown } | undefined;
+      try {
+        for await (
+          const item of this.#source.toIterable({
+            token: connection.token,
+            throwOnCancellation: true,
+          })
+        ) {
+          const channels = this.#route
+            ? (await this.#route(item)).map((index) => this.#channels[index])
+            : this.#channels;
+
+          for (const channel of channels) {
+            await channel.push(item, connection.token);
+          }
+        }
+      } catch (reason) {
+        if (!connection.token.isCancelled) {
+          error = { reason };
+        }
+      } finally {
+        for (const channel of this.#channels) {
+          channel.complete(error);
+        }
+      }
+    })();
+  }
+}
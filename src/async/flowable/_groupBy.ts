@@ -0,0 +1,148 @@
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+import type { FlowPublisher } from "./FlowPublisher.ts";
+import { asyncQueue } from "../queue/asyncQueue.ts";
+import { Channel } from "./_channel.ts";
+import { __linkedCancellation } from "../../cancellation/_utils.ts";
+
+export type GroupByOptions = {
+  /** the number of items buffered per group before the source is paused */
+  bufferSize?: number;
+  /** the number of milliseconds without items after which a group completes */
+  idleTimeout?: number;
+};
+
+/**
+ * A group emitted by `groupBy`, subscribed to through its generator function.
+ */
+export type GroupSubscription<K, T> = {
+  key: K;
+  subscribe: (cancellationToken?: CancellationToken) => AsyncGenerator<T>;
+};
+
+/**
+ * Routes the items of the source into groups by key. The source is pumped
+ * independently of the consumers, and is paused while the buffer of the group
+ * an item belongs to is full.
+ */
+export function groupBy<T, K>(
+  source: FlowPublisher<T>,
+  keySelector: (t: T) => K,
+  options?: GroupByOptions,
+): (cancellationToken?: CancellationToken) => AsyncGenerator<
+  GroupSubscription<K, T>
+> {
+  const bufferSize = options?.bufferSize ?? 16;
+  const idleTimeout = options?.idleTimeout ?? Infinity;
+
+  if (!(bufferSize >= 1) || !Number.isInteger(bufferSize)) {
+    throw new TypeError(`Invalid buffer size ${bufferSize}`);
+  }
+
+  if (!(idleTimeout > 0)) {
+    throw new TypeError(`Invalid duration ${idleTimeout}`);
+  }
+
+  return async function* (cancellationToken) {
+    const connection = __linkedCancellation(cancellationToken);
+    const groups = new Map<K, Group<K, T>>();
+    const emitted = asyncQueue<Group<K, T>>();
+    let failure: { reason: unknown } | undefined;
+
+    const pump = (async () => {
+      try {
+        for await (
+          const item of source.toIterable({
+            token: connection.token,
+            throwOnCancellation: true,
+          })
+        ) {
+          const key = keySelector(item);
+          let group = groups.get(key);
+          if (!group || group.isCompleted) {
+            const created = new Group<K, T>(
+              key,
+              bufferSize,
+              idleTimeout,
+              () => {
+                if (groups.get(key) === created) {
+                  groups.delete(key);
+                }
+              },
+            );
+            group = created;
+            groups.set(key, group);
+            emitted.enqueue(group);
+          }
+
+          await group.push(item, connection.token);
+        }
+      } catch (reason) {
+        if (!connection.token.isCancelled) {
+          failure = { reason };
+        }
+      } finally {
+        for (const group of groups.values()) {
+          group.complete(failure);
+        }
+        groups.clear();
+        if (emitted.state === "rw") {
+          emitted.setReadOnly();
+        }
+      }
+    })();
+
+    try {
+      for await (const group of emitted) {
+        yield { key: group.key, subscribe: group.subscribe };
+      }
+
+      if (failure) {
+        throw failure.reason;
+      }
+    } finally {
+      connection.cancel();
+      emitted.close();
+      await pump;
+    }
+  };
+}
+
+class Group<K, T> extends Channel<T> {
+  readonly key: K;
+  readonly #idleTimeout: number;
+  readonly #onComplete: () => void;
+  #timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    key: K,
+    bufferSize: number,
+    idleTimeout: number,
+    onComplete: () => void,
+  ) {
+    super(bufferSize);
+    this.key = key;
+    this.#idleTimeout = idleTimeout;
+    this.#onComplete = onComplete;
+  }
+
+  override async push(
+    item: T,
+    cancellationToken: CancellationToken,
+  ): Promise<void> {
+    await super.push(item, cancellationToken);
+    if (!this.isCompleted && this.#idleTimeout !== Infinity) {
+      clearTimeout(this.#timer);
+      this.#timer = setTimeout(() => this.complete(), this.#idleTimeout);
+    }
+  }
+
+  override complete(error?: { reason: unknown }): void {
+    clearTimeout(this.#timer);
+    const completing = !this.isCompleted;
+    super.complete(error);
+    if (completing) {
+      // later items with the same key start a new group
+      this.#onComplete();
+    }
+  }
+}
@@ -0,0 +1,304 @@
+import type { BufferStrategyOptions } from "../../buffer/BufferLike.ts";
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+import type { AsyncQueue } from "../queue/types.ts";
+import type { FlowPublisher } from "./FlowPublisher.ts";
+import { asyncQueue } from "../queue/asyncQueue.ts";
+import { QueueClosedError } from "../queue/errors.ts";
+import { __linkedCancellation } from "../../cancellation/_utils.ts";
+
+type SubscriberOptions<T> = {
+  bufferSize?: number;
+  bufferStrategy?: BufferStrategyOptions<T>;
+};
+
+type MulticastOptions<T> = SubscriberOptions<T> & {
+  /** connects on the first subscriber and disconnects after the last one */
+  refCount: boolean;
+  /** the number of items replayed to late subscribers */
+  replay: number;
+  /** only the last item is emitted, once the source completes */
+  last: boolean;
+};
+
+type Terminal = { error?: { reason: unknown } };
+
+/**
+ * Multicasts a single subscription of the source publisher to any number of
+ * subscribers, each of which receives the items through its own buffer.
+ */
+export class Multicast<T> {
+  readonly #source: FlowPublisher<T>;
+  readonly #options: MulticastOptions<T>;
+  readonly #subscribers = new Set<Subscriber<T>>();
+  #connection: ReturnType<typeof __linkedCancellation> | undefined;
+  #terminal: Terminal | undefined;
+  #replay = new Array<T>();
+
+  constructor(source: FlowPublisher<T>, options: MulticastOptions<T>) {
+    this.#source = source;
+    this.#options = options;
+    this.subscribe = this.subscribe.bind(this);
+    this.connect = this.connect.bind(this);
+  }
+
+  async *subscribe(cancellationToken?: CancellationToken): AsyncGenerator<T> {
+    const subscriber = new Subscriber<T>(this.#options);
+    if (!this.#options.last || this.#terminal) {
+      for (const item of this.#replay) {
+        subscriber.next(item);
+      }
+    }
+
+    if (this.#terminal) {
+      subscriber.complete(this.#terminal.error);
+    } else {
+      this.#subscribers.add(subscriber);
+      if (this.#options.refCount && !this.#connection) {
+        this.#connect();
+      }
+    }
+
+    try {
+      yield* subscriber.iterate(cancellationToken);
+    } finally {
+      this.#unsubscribe(subscriber);
+    }
+  }
+
+  connect(): () => void {
+    if (!this.#connection) {
+      this.#terminal = undefined;
+      this.#replay = [];
+      this.#connect();
+    }
+
+    const connection = this.#connection;
+    return () => {
+      if (connection === this.#connection) {
+        connection?.cancel();
+        this.#replay = [];
+        this.#terminate();
+      }
+    };
+  }
+
+  #connect(): void {
+    const connection = __linkedCancellation();
+    this.#connection = connection;
+
+    (async () => {
+      try {
+        for await (
+          const item of this.#source.toIterable({
+            token: connection.token,
+            throwOnCancellation: true,
+          })
+        ) {
+          this.#next(item);
+        }
+      } catch (reason) {
+        if (!connection.token.isCancelled) {
+          this.#terminate({ reason });
+        }
+        return;
+      }
+
+      if (connection === this.#connection) {
+        this.#terminate();
+      }
+    })();
+  }
+
+  #next(item: T): void {
+    if (this.#options.replay > 0) {
+      this.#replay.push(item);
+      if (this.#replay.length > this.#options.replay) {
+        this.#replay.shift();
+      }
+    }
+
+    if (this.#options.last) {
+      return;
+    }
+
+    for (const subscriber of this.#subscribers) {
+      subscriber.next(item);
+    }
+  }
+
+  #terminate(error?: { reason: unknown }): void {
+    if (this.#options.last && !error) {
+      for (const item of this.#replay) {
+        for (const subscriber of this.#subscribers) {
+          subscriber.next(item);
+        }
+      }
+    }
+
+    for (const subscriber of this.#subscribers) {
+      subscriber.complete(error);
+    }
+
+    this.#subscribers.clear();
+    this.#connection = undefined;
+
+    // a plain shared publisher resubscribes to the source for new subscribers
+    const resubscribe = this.#options.refCount && this.#options.replay === 0;
+    this.#terminal = resubscribe ? undefined : { error };
+  }
+
+  #unsubscribe(subscriber: Subscriber<T>): void {
+    subscriber.close();
+    if (!this.#subscribers.delete(subscriber)) {
+      return;
+    }
+
+    if (this.#options.refCount && this.#subscribers.size === 0) {
+      this.#connection?.cancel();
+      this.#connection = undefined;
+      this.#replay = [];
+    }
+  }
+}
+
+/**
+ * Emits the values pushed to it to any number of subscribers, each of which
+ * receives them through its own buffer. The latest `replay` values are
+ * emitted to new subscribers, including after termination.
+ */
+export class Broadcast<T> {
+  readonly #options: SubscriberOptions<T> & { replay: number };
+  readonly #subscribers = new Set<Subscriber<T>>();
+  readonly #replay: T[];
+  #terminal: Terminal | undefined;
+
+  constructor(
+    options: SubscriberOptions<T> & { replay: number },
+    initialValues: T[] = [],
+  ) {
+    this.#options = options;
+    this.#replay = initialValues.slice();
+    this.subscribe = this.subscribe.bind(this);
+    this.next = this.next.bind(this);
+    this.error = this.error.bind(this);
+    this.complete = this.complete.bind(this);
+  }
+
+  get latest(): T | undefined {
+    return this.#replay[this.#replay.length - 1];
+  }
+
+  async *subscribe(cancellationToken?: CancellationToken): AsyncGenerator<T> {
+    const subscriber = new Subscriber<T>(this.#options);
+    for (const item of this.#replay) {
+      subscriber.next(item);
+    }
+
+    if (this.#terminal) {
+      subscriber.complete(this.#terminal.error);
+    } else {
+      this.#subscribers.add(subscriber);
+    }
+
+    try {
+      yield* subscriber.iterate(cancellationToken);
+    } finally {
+      subscriber.close();
+      this.#subscribers.delete(subscriber);
+    }
+  }
+
+  next(item: T): void {
+    if (this.#terminal) {
+      return;
+    }
+
+    if (this.#options.replay > 0) {
+      this.#replay.push(item);
+      if (this.#replay.length > this.#options.replay) {
+        this.#replay.shift();
+      }
+    }
+
+    for (const subscriber of this.#subscribers) {
+      subscriber.next(item);
+    }
+  }
+
+  error(reason: unknown): void {
+    this.#terminate({ reason });
+  }
+
+  complete(): void {
+    this.#terminate();
+  }
+
+  #terminate(error?: { reason: unknown }): void {
+    if (this.#terminal) {
+      return;
+    }
+
+    this.#terminal = { error };
+    for (const subscriber of this.#subscribers) {
+      subscriber.complete(error);
+    }
+    this.#subscribers.clear();
+  }
+}
+
+class Subscriber<T> {
+  readonly #queue: AsyncQueue<T>;
+  #error: { reason: unknown } | undefined;
+
+  constructor(options: SubscriberOptions<T>) {
+    this.#queue = asyncQueue<T>({
+      bufferSize: options.bufferSize ?? Infinity,
+      bufferStrategy: options.bufferStrategy,
+    });
+  }
+
+  next(item: T): void {
+    if (this.#queue.state !== "rw") {
+      return;
+    }
+
+    try {
+      this.#queue.enqueue(item);
+    } catch (reason) {
+      // the subscriber fell behind a "fixed" buffer
+      this.complete({ reason });
+    }
+  }
+
+  complete(error?: { reason: unknown }): void {
+    if (this.#queue.state !== "rw") {
+      return;
+    }
+
+    this.#error = error;
+    this.#queue.setReadOnly();
+  }
+
+  close(): void {
+    this.#queue.close();
+  }
+
+  async *iterate(cancellationToken?: CancellationToken): AsyncGenerator<T> {
+    while (true) {
+      let item: T;
+      try {
+        item = await this.#queue.dequeue(cancellationToken);
+      } catch (e) {
+        if (e instanceof QueueClosedError) {
+          break;
+        }
+        throw e;
+      }
+      yield item;
+    }
+
+    if (this.#error) {
+      throw this.#error.reason;
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+import type { RetryableSettings } from "../resiliency/rate.limit.ts";
+import type { ErrorLike } from "../../types.ts";
+import type { FlowPublisher } from "./FlowPublisher.ts";
+import { calculateExponentialDelay, delay } from "../delay.ts";
+import { DeadlineExceededError } from "../../deadline.ts";
+import { Errors } from "../../errors/errors.ts";
+import { NonRetryableError, RetryableError } from "../../errors/error.types.ts";
+
+/**
+ * Decides whether the source is resubscribed to after it failed.
+ */
+type RetryPredicate = (
+  error: unknown,
+  attempt: number,
+  cancellationToken?: CancellationToken,
+) => Promise<boolean> | boolean;
+
+/**
+ * Resubscribes to the source whenever it fails and the predicate allows it,
+ * otherwise the flow ends with the error returned by `onGiveUp`.
+ */
+export function retryWhen<T>(
+  source: FlowPublisher<T>,
+  shouldRetry: RetryPredicate,
+  onGiveUp: (error: unknown) => unknown = (error) => error,
+): (cancellationToken?: CancellationToken) => AsyncGenerator<T> {
+  return async function* (cancellationToken) {
+    let failures = 0;
+    while (true) {
+      const it = source.toIterable({
+        token: cancellationToken,
+        throwOnCancellation: true,
+      });
+
+      try {
+        while (true) {
+          let result: IteratorResult<T>;
+          try {
+            result = await it.next();
+          } catch (error) {
+            if (cancellationToken?.isCancelled === true) {
+              throw error;
+            }
+
+            if (!(await shouldRetry(error, ++failures, cancellationToken))) {
+              throw onGiveUp(error);
+            }
+            break;
+          }
+
+          if (result.done) {
+            return;
+          }
+
+          yield result.value;
+        }
+      } finally {
+        await it.return(undefined);
+      }
+    }
+  };
+}
+
+/**
+ * Resubscribes to the source after transient errors, with the backoff defined
+ * by the retryable settings. As with `Retryable.execute`, `maxRetries` bounds
+ * the attempts of the whole subscription and `maxDelay` the overall time spent
+ * retrying, counted from the first failure.
+ */
+export function retry<T>(
+  source: FlowPublisher<T>,
+  settings?: RetryableSettings,
+): (cancellationToken?: CancellationToken) => AsyncGenerator<T> {
+  const maxDelay = settings?.maxDelay ?? 30000;
+  const maxRetries = settings?.maxRetries ?? 3;
+  const nextDelayCalc = settings?.nextDelayCalc ?? calculateExponentialDelay;
+  const errorHelper = settings?.errorHelper ?? {
+    isTransient: (error) => Errors.isTransient(error),
+  };
+
+  if (settings?.rateLimiterOrExecutor !== undefined) {
+    throw new TypeError("rateLimiterOrExecutor is not supported by retry");
+  }
+
+  if (maxRetries <= 0) {
+    throw new Error("maxRetries must be a positive number");
+  }
+
+  if (maxDelay <= 0) {
+    throw new Error("maxDelay must be a positive number");
+  }
+
+  return (cancellationToken) => {
+    // the budget starts at the first failure of each subscription
+    let budgetEnd: number | undefined;
+    return retryWhen(
+      source,
+      async (error, attempt, cancellationToken) => {
+        if (
+          attempt >= maxRetries || !errorHelper.isTransient(error as ErrorLike)
+        ) {
+          return false;
+        }
+
+        const delayMillis = error instanceof RetryableError && error.retryAfter
+          ? error.retryAfter
+          : nextDelayCalc(attempt);
+
+        budgetEnd ??= Date.now() + maxDelay;
+        if (Date.now() + delayMillis > budgetEnd) {
+          throw new DeadlineExceededError();
+        }
+
+        await delay(delayMillis, cancellationToken);
+        return true;
+      },
+      (error) =>
+        error instanceof NonRetryableError
+          ? error
+          : new NonRetryableError(error),
+    )(cancellationToken);
+  };
+}
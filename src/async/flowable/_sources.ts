@@ -0,0 +1,139 @@
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+import type { FlowPublisher } from "./FlowPublisher.ts";
+import type { IterableLike } from "../IterableLike.ts";
+import { TimeoutInput } from "../../types.ts";
+import { delay } from "../delay.ts";
+import { Deferred } from "../Deferred.ts";
+import { fromIterableLike } from "../fromIterableLike.ts";
+import { __linkedCancellation } from "../../cancellation/_utils.ts";
+
+/**
+ * Options for sources that emit over time.
+ */
+export type TimedSourceOptions = {
+  /** Completes the source once cancelled. */
+  cancellationToken?: CancellationToken;
+  /** Completes the source once no further value can be emitted before it. */
+  deadline?: TimeoutInput;
+};
+
+/**
+ * Emits an increasing count, starting at 0, once the initial delay has passed
+ * and then every period, or only once when no period is given.
+ */
+export function ticks(
+  initialDelay: TimeoutInput,
+  period?: number,
+  options?: TimedSourceOptions,
+): (cancellationToken?: CancellationToken) => AsyncGenerator<number> {
+  if (period !== undefined && !(period > 0 && period < Infinity)) {
+    throw new TypeError(`Invalid period ${period}`);
+  }
+
+  return async function* (cancellationToken) {
+    const stop = options?.cancellationToken;
+    const end = options?.deadline === undefined
+      ? Infinity
+      : Date.now() + TimeoutInput.deriveTimeout(options.deadline);
+
+    const cancellation = __linkedCancellation(stop, cancellationToken);
+    let due = Date.now() + TimeoutInput.deriveTimeout(initialDelay);
+    try {
+      for (let count = 0; due <= end; count++) {
+        try {
+          await delay(due - Date.now(), cancellation.token);
+        } catch (e) {
+          if (stop?.isCancelled === true) {
+            return;
+          }
+          throw e;
+        }
+
+        yield count;
+
+        if (period === undefined) {
+          return;
+        }
+
+        due += period;
+      }
+    } finally {
+      cancellation.cancel();
+    }
+  };
+}
+
+/**
+ * Emits `count` sequential numbers, starting at `start`.
+ */
+export function range(
+  start: number,
+  count: number,
+): () => AsyncGenerator<number> {
+  if (!Number.isFinite(start)) {
+    throw new TypeError(`Invalid range start ${start}`);
+  }
+
+  if (!(count >= 0) || !Number.isInteger(count)) {
+    throw new TypeError(`Invalid range count ${count}`);
+  }
+
+  return async function* () {
+    for (let i = 0; i < count; i++) {
+      yield start + i;
+    }
+  };
+}
+
+/**
+ * Emits the values of the source created by the factory for each
+ * subscription.
+ */
+export function defer<T>(
+  factory: () => FlowPublisher<T> | IterableLike<T>,
+): (cancellationToken?: CancellationToken) => AsyncGenerator<T> {
+  return async function* (cancellationToken) {
+    const source = factory();
+    if (isFlowPublisher(source)) {
+      yield* source.toIterable({
+        token: cancellationToken,
+        throwOnCancellation: true,
+      });
+    } else {
+      yield* fromIterableLike(source);
+    }
+  };
+}
+
+/**
+ * Emits no values and never completes, unless cancelled.
+ */
+export function never<T>(): (
+  cancellationToken?: CancellationToken,
+) => AsyncGenerator<T> {
+  // deno-lint-ignore require-yield
+  return async function* (cancellationToken) {
+    await new Deferred<never>(cancellationToken).promise;
+  };
+}
+
+/**
+ * Fails with the error, or the error created by the factory, without
+ * emitting any values.
+ */
+export function fail<T>(error: unknown): () => AsyncGenerator<T> {
+  // deno-lint-ignore require-yield
+  return async function* () {
+    throw typeof error === "function" ? error() : error;
+  };
+}
+
+/**
+ * Returns whether the source is a `FlowPublisher` rather than an iterable.
+ */
+export function isFlowPublisher<T>(
+  source: FlowPublisher<T> | IterableLike<T>,
+): source is FlowPublisher<T> {
+  return typeof (source as FlowPublisher<T>).toIterable === "function" &&
+    typeof (source as FlowPublisher<T>).pipe === "function";
+}
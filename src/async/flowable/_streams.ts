@@ -0,0 +1,97 @@
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+import { __linkedCancellation } from "../../cancellation/_utils.ts";
+
+/**
+ * Options for reading a `ReadableStream`.
+ */
+export type ReadableStreamSourceOptions = {
+  /** Leaves the stream uncancelled when the subscription stops early. */
+  preventCancel?: boolean;
+  /** Completes the source once cancelled. */
+  cancellationToken?: CancellationToken;
+};
+
+/**
+ * Reads the chunks of a stream, one read per pulled item. A stream can only
+ * be read by one subscription at a time.
+ */
+export function fromReadableStream<T>(
+  stream: ReadableStream<T>,
+  options?: ReadableStreamSourceOptions,
+): (cancellationToken?: CancellationToken) => AsyncGenerator<T> {
+  const preventCancel = options?.preventCancel === true;
+
+  return async function* (cancellationToken) {
+    const cancellation = __linkedCancellation(
+      options?.cancellationToken,
+      cancellationToken,
+    );
+    const reader = stream.getReader();
+    let done = false;
+
+    // a pending read settles only once the reader is cancelled or released
+    const unregister = cancellation.token.register((token) => {
+      if (preventCancel) {
+        reader.releaseLock();
+      } else {
+        reader.cancel(token.reason).catch(() => {});
+      }
+    });
+
+    try {
+      while (!cancellation.token.isCancelled) {
+        let result: ReadableStreamReadResult<T>;
+        try {
+          result = await reader.read();
+        } catch (e) {
+          if (cancellation.token.isCancelled) {
+            return;
+          }
+          throw e;
+        }
+
+        if (result.done) {
+          done = true;
+          return;
+        }
+
+        yield result.value;
+      }
+    } finally {
+      unregister();
+      cancellation.cancel();
+      if (!done && !preventCancel) {
+        await reader.cancel().catch(() => {});
+      }
+      reader.releaseLock();
+    }
+  };
+}
+
+/**
+ * Creates a stream that pulls from the iterator only when its queue has room,
+ * which propagates the backpressure of the stream to the iterator.
+ */
+export function toReadableStream<T>(
+  iterate: (cancellationToken: CancellationToken) => AsyncIterator<T>,
+  highWaterMark = 1,
+): ReadableStream<T> {
+  const cancellation = __linkedCancellation();
+  let it: AsyncIterator<T> | undefined;
+
+  return new ReadableStream<T>({
+    async pull(controller) {
+      it ??= iterate(cancellation.token);
+      const result = await it.next();
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    async cancel() {
+      cancellation.cancel();
+      await it?.return?.();
+    },
+  }, new CountQueuingStrategy({ highWaterMark }));
+}
@@ -0,0 +1,111 @@
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+import type { FlowPublisher } from "./FlowPublisher.ts";
+import { TimeoutInput } from "../../types.ts";
+import { Deadline, DeadlineExceededError } from "../../deadline.ts";
+import { Cancellable } from "../../cancellation/Cancellable.ts";
+import { __linkedCancellation } from "../../cancellation/_utils.ts";
+
+export type TimeoutOptions<T> = {
+  /** the maximum number of milliseconds to wait for each item */
+  perItem?: number;
+  /** the time limit for the whole flow, measured from the subscription */
+  total?: TimeoutInput;
+  /** the publisher continued with once a limit is exceeded */
+  fallback?: FlowPublisher<T>;
+};
+
+const EXPIRED = Symbol("expired");
+
+/**
+ * Fails the flow with a `DeadlineExceededError`, or switches to the fallback,
+ * when an item takes longer than `perItem` or the flow outlives `total`.
+ */
+export function timeout<T>(
+  source: FlowPublisher<T>,
+  options: TimeoutOptions<T>,
+): (cancellationToken?: CancellationToken) => AsyncGenerator<T> {
+  const perItem = options.perItem ?? Infinity;
+  if (!(perItem > 0)) {
+    throw new TypeError(`Invalid duration ${perItem}`);
+  }
+
+  return async function* (cancellationToken) {
+    const total = options.total === undefined
+      ? undefined
+      : Deadline.after(TimeoutInput.deriveTimeout(options.total));
+
+    const upstream = __linkedCancellation(cancellationToken);
+    const it = source.toIterable({
+      token: upstream.token,
+      throwOnCancellation: true,
+    });
+
+    let error: DeadlineExceededError | undefined;
+    let pending: Promise<IteratorResult<T>> | undefined;
+    try {
+      while (true) {
+        const limit = Math.min(perItem, total?.remainingMillis ?? Infinity);
+        if (total?.isExpired === true || limit <= 0) {
+          error = new DeadlineExceededError("Flow exceeded its total timeout");
+          break;
+        }
+
+        pending = it.next();
+        const result = limit === Infinity
+          ? await pending
+          : await expireAfter(pending, limit);
+
+        if (result === EXPIRED) {
+          error = new DeadlineExceededError(
+            limit === perItem
+              ? `No item was received within ${perItem}ms`
+              : "Flow exceeded its total timeout",
+          );
+          break;
+        }
+
+        pending = undefined;
+        if (result.done) {
+          return;
+        }
+
+        yield result.value;
+      }
+    } finally {
+      upstream.cancel();
+      if (pending) {
+        // the stalled pull settles once the upstream observes the cancellation
+        pending.catch(() => {});
+        it.return(undefined).catch(() => {});
+      } else {
+        await it.return(undefined);
+      }
+    }
+
+    if (!options.fallback) {
+      throw error;
+    }
+
+    yield* options.fallback.toIterable({
+      token: cancellationToken,
+      throwOnCancellation: true,
+    });
+  };
+}
+
+async function expireAfter<T>(
+  promise: Promise<T>,
+  timeoutMillis: number,
+): Promise<T | typeof EXPIRED> {
+  const expiry = Cancellable.timeout(timeoutMillis);
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<typeof EXPIRED>((resolve) => {
+        expiry.register(() => resolve(EXPIRED));
+      }),
+    ]);
+  } finally {
+    expiry[Symbol.dispose]();
+  }
+}
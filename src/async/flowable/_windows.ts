@@ -0,0 +1,83 @@
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+import type { Pipeable } from "../pipeable/Pipeable.ts";
+import type { WindowEvent } from "../pipeable/pipeable-funcs.ts";
+import { asyncQueue } from "../queue/asyncQueue.ts";
+import { cancellableIterable } from "../../cancellation/cancellableIterable.ts";
+import { Channel } from "./_channel.ts";
+import { __linkedCancellation } from "../../cancellation/_utils.ts";
+
+/**
+ * Emits a live window, subscribed to through its generator function, as soon
+ * as it opens, its items being pushed to it as they arrive. The source is
+ * pumped independently of the consumers, and is paused while the buffer of an
+ * open window is full.
+ */
+export function liveWindows<T>(
+  events: Pipeable<T, WindowEvent<T>>,
+  bufferSize = 16,
+): Pipeable<
+  T,
+  (cancellationToken?: CancellationToken) => AsyncGenerator<T>
+> {
+  return async function* (source) {
+    const connection = __linkedCancellation();
+    const windows = new Array<Channel<T>>();
+    const emitted = asyncQueue<Channel<T>>();
+    let failure: { reason: unknown } | undefined;
+
+    const pump = (async () => {
+      try {
+        for await (
+          const event of events(
+            cancellableIterable(source, {
+              token: connection.token,
+              throwOnCancellation: true,
+            }),
+          )
+        ) {
+          switch (event.kind) {
+            case "open": {
+              const window = new Channel<T>(bufferSize);
+              windows.push(window);
+              emitted.enqueue(window);
+              break;
+            }
+            case "next":
+              for (const window of windows) {
+                await window.push(event.value, connection.token);
+              }
+              break;
+            case "close":
+              windows.shift()!.complete();
+          }
+        }
+      } catch (reason) {
+        if (!connection.token.isCancelled) {
+          failure = { reason };
+        }
+      } finally {
+        for (const window of windows) {
+          window.complete(failure);
+        }
+        windows.length = 0;
+        if (emitted.state === "rw") {
+          emitted.setReadOnly();
+        }
+      }
+    })();
+
+    try {
+      for await (const window of emitted) {
+        yield window.subscribe;
+      }
+
+      if (failure) {
+        throw failure.reason;
+      }
+    } finally {
+      connection.cancel();
+      emitted.close();
+      await pump;
+    }
+  };
+}
@@ -25,3 +25,16 @@ export * from "./Promises.ts";
 export * from "./flowable/Flowable.ts";
 export * from "./flowable/FlowProcessor.ts";
 export * from "./flowable/FlowPublisher.ts";
+export * from "./flowable/Collectors.ts";
+export type { Pipeable } from "./pipeable/Pipeable.ts";
+export {
+  type CsvOptions,
+  type DecodeOptions,
+  decodeText,
+  type FrameOptions,
+  lengthPrefixedFrames,
+  parseCsv,
+  parseNdjson,
+  splitLines,
+  stringifyNdjson,
+} from "./pipeable/pipeable-codecs.ts";
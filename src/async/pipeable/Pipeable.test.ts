@@ -0,0 +1,152 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { Pipeable } from "./Pipeable.ts";
+import { filter, map } from "./pipeable-funcs.ts";
+import { fromIterableLike } from "../fromIterableLike.ts";
+import type { IterableLike } from "../IterableLike.ts";
+import { parseNdjson, splitLines } from "../index.ts";
+
+const { sync } = Pipeable;
+
+Deno.test("pipeable sync path test", () => {
+  const result = Pipeable.toIterable<number, number[]>(
+    [1, 2, 3, 4, 5, 6],
+    sync.map((x: number) => x * 2),
+    sync.filter((x: number) => x % 3 !== 0),
+    sync.chunk(2),
+  );
+
+  assertEquals([...result], [[2, 4], [8, 10]]);
+});
+
+Deno.test("pipeable sync path through the general overload test", async () => {
+  const input: IterableLike<number> = [1, 2, 3];
+  const result = Pipeable.toIterable<number, number>(
+    input,
+    sync.map((x: number) => x * 2),
+  );
+
+  assert(result.next() instanceof Promise);
+  assertEquals(await Array.fromAsync(result), [4, 6]);
+  assertEquals(
+    [...Pipeable.toIterable([1, 2, 3], sync.map((x: number) => x * 2))],
+    [2, 4, 6],
+  );
+});
+
+Deno.test("pipeable sync operators test", () => {
+  const seen: number[] = [];
+  const values = [
+    ...Pipeable.toIterable<number, number>(
+      new Set([1, 2, 3, 4, 5]),
+      sync.peek((x: number) => seen.push(x)),
+      sync.skipUntil((x: number) => x > 1),
+      sync.takeWhile((x: number) => x < 5),
+      sync.compose((x: number) => [x, x]),
+      sync.scan((acc: number, x: number) => acc + x, 0),
+    ),
+  ];
+
+  assertEquals(values, [2, 4, 7, 10, 14, 18]);
+  assertEquals(seen, [1, 2, 3, 4, 5]);
+
+  assertEquals(
+    [...Pipeable.toIterable([1, 2, 3, 4, 5], sync.windowCount(3, 2))],
+    [[1, 2, 3], [3, 4, 5], [5]],
+  );
+  assertThrows(() => sync.chunk(0), TypeError);
+});
+
+Deno.test("pipeable sync error operators test", () => {
+  function* failing() {
+    yield 1;
+    throw new Error("failure");
+  }
+
+  const events: string[] = [];
+  const recovered = Pipeable.toIterable<number, number>(
+    failing(),
+    sync.doOnError(() => events.push("error")),
+    sync.catchError(() => [2, 3]),
+    sync.doOnComplete(() => events.push("complete")),
+    sync.finalize(() => events.push("finalize")),
+  );
+
+  assertEquals([...recovered], [1, 2, 3]);
+  assertEquals(events, ["error", "complete", "finalize"]);
+
+  assertEquals(
+    [...Pipeable.toIterable(failing(), sync.onErrorReturn(0))],
+    [1, 0],
+  );
+
+  const early = Pipeable.toIterable(
+    [1, 2, 3],
+    sync.finalize(() => events.push("returned")),
+  );
+  for (const _ of early) {
+    break;
+  }
+  assertEquals(events.at(-1), "returned");
+});
+
+Deno.test("pipeable sync resumeOnError test", () => {
+  const errors: unknown[] = [];
+  const resumed = Pipeable.toIterable<number, number>(
+    [1, 2, 3],
+    sync.resumeOnError((error) => {
+      errors.push(error);
+      return error !== "fatal";
+    }),
+  )[Symbol.iterator]();
+
+  assertEquals(resumed.next(), { value: 1, done: false });
+  assertEquals(resumed.throw!("ignored"), { value: 2, done: false });
+  assertThrows(() => resumed.throw!("fatal"));
+  assertEquals(errors, ["ignored", "fatal"]);
+
+  const swallowed = Pipeable.toIterable<number, number>(
+    [1, 2],
+    sync.resumeOnError(),
+  )[Symbol.iterator]();
+  swallowed.next();
+  assertEquals(swallowed.throw!("error"), { value: 2, done: false });
+  assertEquals(swallowed.next(), { value: undefined, done: true });
+});
+
+Deno.test("pipeable mixed path test", async () => {
+  const mixed = Pipeable.toIterable<number, number>(
+    [1, 2, 3],
+    sync.map((x: number) => x * 10),
+    filter((x: number) => x > 10),
+  );
+  assert(Symbol.asyncIterator in mixed);
+  assertEquals(await Array.fromAsync(mixed), [20, 30]);
+
+  async function* source() {
+    yield* [1, 2, 3];
+  }
+
+  const asyncInput = Pipeable.toIterable<number, number>(
+    source(),
+    sync.map((x: number) => x + 1),
+    sync.compose((x: number) => [x, -x]),
+  );
+  assertEquals(await Array.fromAsync(asyncInput), [2, -2, 3, -3, 4, -4]);
+
+  const plain = Pipeable.toIterable<number, number>([1], map((x: number) => x));
+  assert(Symbol.asyncIterator in plain);
+});
+
+Deno.test("Pipeable codecs are public", async () => {
+  const lines: string[] = [];
+  for await (const line of splitLines()(fromIterableLike(["a\nb", "\nc"]))) {
+    lines.push(line);
+  }
+  assertEquals(lines, ["a", "b", "c"]);
+
+  const values: unknown[] = [];
+  for await (const value of parseNdjson()(fromIterableLike(["1\nx\n2"]))) {
+    values.push(value);
+  }
+  assertEquals(values, [1, 2]);
+});
@@ -1,6 +1,8 @@
 import type { IterableLike } from "../IterableLike.ts";
 import { fromIterableLike } from "../fromIterableLike.ts";
 import { __fromHandler, __fromHandlerMulti, __ofFunc } from "./__utils.ts";
+import * as sync from "./pipeable-sync.ts";
+import { isSyncPipeable, type SyncPipeable } from "./pipeable-sync.ts";
 
 /**
  * Represents a pipeable function that transforms an async generator of type `T` into an async generator of type `R`.
@@ -20,10 +22,48 @@ export const Pipeable = Object.freeze({
   from: __fromHandler,
   fromMulti: __fromHandlerMulti,
   of: __ofFunc,
+  /**
+   * The synchronous pipeable functions, for pipelines over plain iterables.
+   */
+  sync: Object.freeze({
+    map: sync.map,
+    filter: sync.filter,
+    compose: sync.compose,
+    peek: sync.peek,
+    scan: sync.scan,
+    skipUntil: sync.skipUntil,
+    takeWhile: sync.takeWhile,
+    catchError: sync.catchError,
+    onErrorReturn: sync.onErrorReturn,
+    resumeOnError: sync.resumeOnError,
+    doOnError: sync.doOnError,
+    doOnComplete: sync.doOnComplete,
+    finalize: sync.finalize,
+    chunk: sync.chunk,
+    windowCount: sync.windowCount,
+  }),
 });
 
+/**
+ * Converts a synchronous input iterable into an iterable by applying a series of synchronous
+ * pipeable functions. Iterating it synchronously avoids the promise overhead of async generators,
+ * while iterating it asynchronously applies the async counterparts of the functions.
+ *
+ * @template T The type of elements in the input iterable.
+ * @template R The type of elements in the resulting iterable.
+ * @param {Iterable<T>} input The input iterable to convert.
+ * @param {...SyncPipeable<any, any>} pipes The synchronous pipeable functions to apply to the input iterable.
+ * @returns {Iterable<R> & AsyncGenerator<R>} An iterable that yields the transformed elements.
+ */
+function toIterable<T, R = T>(
+  input: Iterable<T>,
+  // deno-lint-ignore no-explicit-any
+  ...pipes: [SyncPipeable<any, any>, ...SyncPipeable<any, any>[]]
+): Iterable<R> & AsyncGenerator<R>;
+
 /**
  * Converts an input iterable into an async generator by applying a series of pipeable functions.
+ * Synchronous pipeable functions are replaced by their async counterparts.
  *
  * @template T The type of elements in the input iterable.
  * @template R The type of elements in the resulting async generator.
@@ -31,10 +71,44 @@ export const Pipeable = Object.freeze({
  * @param {...Pipeable<any, any>} pipes The pipeable functions to apply to the input iterable.
  * @returns {AsyncGenerator<R>} An async generator that yields the transformed elements.
  */
-async function* toIterable<T, R = T>(
+function toIterable<T, R = T>(
   input: IterableLike<T>,
   // deno-lint-ignore no-explicit-any
-  ...pipes: Pipeable<any, any>[]
+  ...pipes: Array<Pipeable<any, any> | SyncPipeable<any, any>>
+): AsyncGenerator<R>;
+
+function toIterable<T, R = T>(
+  input: IterableLike<T>,
+  // deno-lint-ignore no-explicit-any
+  ...pipes: Array<Pipeable<any, any> | SyncPipeable<any, any>>
+): AsyncGenerator<R> {
+  const generator = toAsyncIterable<T, R>(
+    input,
+    pipes.map((pipe) => isSyncPipeable(pipe) ? pipe.async : pipe),
+  );
+
+  if (
+    pipes.length > 0 && pipes.every(isSyncPipeable) && isSyncIterable(input)
+  ) {
+    // an input typed as `IterableLike` may still be sync, so the result stays an async generator
+    return Object.assign(generator, {
+      [Symbol.iterator]: () => {
+        let current: Iterable<unknown> = input;
+        for (const pipe of pipes as SyncPipeable[]) {
+          current = pipe(current);
+        }
+        return (current as Iterable<R>)[Symbol.iterator]();
+      },
+    });
+  }
+
+  return generator;
+}
+
+async function* toAsyncIterable<T, R = T>(
+  input: IterableLike<T>,
+  // deno-lint-ignore no-explicit-any
+  pipes: Pipeable<any, any>[],
 ): AsyncGenerator<R> {
   if (pipes.length === 0) {
     return yield* fromIterableLike<R>(input as IterableLike<R>);
@@ -48,3 +122,8 @@ async function* toIterable<T, R = T>(
 
   return yield* currentGenerator;
 }
+
+function isSyncIterable<T>(input: IterableLike<T>): input is Iterable<T> {
+  return Symbol.iterator in Object(input) &&
+    !(Symbol.asyncIterator in Object(input));
+}
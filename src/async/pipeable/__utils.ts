@@ -98,6 +98,57 @@ export function __ofFunc<T, R = T>(
   });
 }
 
+/**
+ * Wraps an async generator so that pulling the next value can be raced against
+ * a timeout without losing the in-flight `next()` call when the timeout wins.
+ *
+ * @template T The type of values in the async generator.
+ * @param it The async generator to pull values from.
+ * @returns A puller whose `next` resolves to `undefined` when the timeout elapses first.
+ */
+export function __timedIterator<T>(it: AsyncGenerator<T>): TimedIterator<T> {
+  let pending: Promise<IteratorResult<T>> | undefined;
+
+  return {
+    async next(timeoutMillis?: number): Promise<IteratorResult<T> | undefined> {
+      const next = pending ??= it.next();
+      let timerId: ReturnType<typeof setTimeout> | undefined;
+      try {
+        const timeout = timeoutMillis === undefined
+          ? undefined
+          : new Promise<undefined>((resolve) => {
+            timerId = setTimeout(resolve, Math.max(0, timeoutMillis));
+          });
+
+        const result = await (timeout ? Promise.race([next, timeout]) : next);
+
+        if (result !== undefined) {
+          pending = undefined;
+        }
+
+        return result;
+      } catch (error) {
+        pending = undefined;
+        throw error;
+      } finally {
+        clearTimeout(timerId);
+      }
+    },
+    async return(): Promise<void> {
+      if (pending === undefined) {
+        await it.return?.(undefined);
+        return;
+      }
+
+      // a pull is still in flight, awaiting the return would block until the
+      // source produces its next value, so detach from it instead
+      pending.catch(() => {});
+      pending = undefined;
+      it.return?.(undefined).catch(() => {});
+    },
+  };
+}
+
 const createFlow = (() => {
   const asResult = async <R>(value: R | Promise<R>) => {
     return { value: await value };
@@ -132,3 +183,8 @@ type Handler<T, R> = (
 ) => IteratorResult<R> | Promise<IteratorResult<R>>;
 
 type HandlerMulti<T, R> = (value: T, it: Controller<T, R>) => AsyncGenerator<R>;
+
+type TimedIterator<T> = {
+  next: (timeoutMillis?: number) => Promise<IteratorResult<T> | undefined>;
+  return: () => Promise<void>;
+};
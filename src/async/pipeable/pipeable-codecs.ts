@@ -0,0 +1,468 @@
+import type { Pipeable } from "./Pipeable.ts";
+import { MalformedRecordError } from "../../errors/error.types.ts";
+
+/**
+ * @fileoverview This file contains pipeable functions for decoding streams of text and bytes.
+ * @module async/pipeable/pipeable-codecs
+ */
+
+/**
+ * Options shared by the decoding pipeables.
+ */
+export type DecodeOptions = {
+  /**
+   * Called with each record that cannot be decoded, after which decoding
+   * continues with the next record. Without it, malformed records are
+   * skipped silently; throw from it to fail the stream instead.
+   */
+  onError?: (error: MalformedRecordError) => void;
+};
+
+/**
+ * Options for parsing CSV.
+ */
+export type CsvOptions = DecodeOptions & {
+  /**
+   * `true` to read the column names from the first record, or the column
+   * names themselves, in which case records are emitted as objects keyed by
+   * column and records with another number of fields are malformed
+   */
+  header?: boolean | string[];
+  /** the field delimiter, "," by default */
+  delimiter?: string;
+};
+
+/**
+ * Options for splitting length-prefixed frames.
+ */
+export type FrameOptions = DecodeOptions & {
+  /** the size of the length prefix in bytes, 4 by default */
+  lengthBytes?: 1 | 2 | 4;
+  /** whether the length prefix is little-endian, false by default */
+  littleEndian?: boolean;
+  /** the length above which a frame is malformed and skipped */
+  maxFrameLength?: number;
+};
+
+/**
+ * Creates a new pipeable function that decodes chunks of bytes into text. Multi-byte characters
+ * split across chunks are decoded once complete.
+ * @param {string} encoding The encoding of the bytes, "utf-8" by default.
+ * @param {TextDecoderOptions} options The options of the `TextDecoder`.
+ * @returns {Pipeable<ArrayBufferView | ArrayBuffer, string>} The pipeable function.
+ * @throws {RangeError} If the encoding is not supported.
+ */
+export function decodeText(
+  encoding = "utf-8",
+  options?: TextDecoderOptions,
+): Pipeable<ArrayBufferView | ArrayBuffer, string> {
+  // fails early on unsupported encodings
+  new TextDecoder(encoding, options);
+
+  return async function* (it) {
+    const decoder = new TextDecoder(encoding, options);
+    for await (const chunk of it) {
+      const text = decoder.decode(chunk, { stream: true });
+      if (text.length > 0) {
+        yield text;
+      }
+    }
+
+    const rest = decoder.decode();
+    if (rest.length > 0) {
+      yield rest;
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that splits chunks of text into lines, without their LF or CRLF
+ * terminators. Lines may span chunks, and a final line without a terminator is emitted on
+ * completion.
+ * @returns {Pipeable<string>} The pipeable function.
+ */
+export function splitLines(): Pipeable<string> {
+  return async function* (it) {
+    let partial = "";
+    for await (const chunk of it) {
+      const last = chunk.lastIndexOf("\n");
+      if (last === -1) {
+        partial += chunk;
+        continue;
+      }
+
+      const lines = (partial + chunk.slice(0, last)).split("\n");
+      partial = chunk.slice(last + 1);
+      for (const line of lines) {
+        yield trimCR(line);
+      }
+    }
+
+    if (partial.length > 0) {
+      yield trimCR(partial);
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that parses chunks of newline-delimited JSON. Blank lines are
+ * skipped, and lines that are not valid JSON are malformed records.
+ * @template R The type of the parsed values.
+ * @param {DecodeOptions} options The callback for malformed records.
+ * @returns {Pipeable<string, R>} The pipeable function.
+ */
+export function parseNdjson<R = unknown>(
+  options?: DecodeOptions,
+): Pipeable<string, R> {
+  return async function* (it) {
+    let index = 0;
+    for await (const line of splitLines()(it)) {
+      const lineIndex = index++;
+      if (line.trim().length === 0) {
+        continue;
+      }
+
+      let value: R;
+      try {
+        value = JSON.parse(line);
+      } catch (e) {
+        report(options, new MalformedRecordError(e, line, lineIndex));
+        continue;
+      }
+
+      yield value;
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that serializes each value as a line of newline-delimited JSON.
+ * Values JSON cannot represent, such as `undefined`, are written as `null`.
+ * @template T The type of the input values.
+ * @returns {Pipeable<T, string>} The pipeable function.
+ */
+export function stringifyNdjson<T = unknown>(): Pipeable<T, string> {
+  return async function* (it) {
+    for await (const value of it) {
+      yield `${JSON.stringify(value) ?? "null"}\n`;
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that parses chunks of RFC 4180 CSV into records. Quoted fields
+ * may contain delimiters, line breaks and escaped (doubled) quotes, records may end with LF, CRLF
+ * or CR, and blank lines are skipped. Stray quotes, unterminated quoted fields and, with a header,
+ * records with the wrong number of fields are malformed records.
+ * @param {CsvOptions} options The header, delimiter and callback for malformed records.
+ * @returns {Pipeable<string, string[]>} The pipeable function.
+ * @throws {TypeError} If the delimiter is not a single character other than a quote or a line break.
+ */
+export function parseCsv(
+  options?: CsvOptions & { header?: false },
+): Pipeable<string, string[]>;
+
+/**
+ * Creates a new pipeable function that parses chunks of RFC 4180 CSV into records keyed by column.
+ * @param {CsvOptions} options The header, delimiter and callback for malformed records.
+ * @returns {Pipeable<string, Record<string, string>>} The pipeable function.
+ * @throws {TypeError} If the delimiter is not a single character other than a quote or a line break.
+ */
+export function parseCsv(
+  options: CsvOptions & { header: true | string[] },
+): Pipeable<string, Record<string, string>>;
+
+export function parseCsv(
+  options?: CsvOptions,
+): Pipeable<string, string[] | Record<string, string>> {
+  const delimiter = options?.delimiter ?? ",";
+  if (delimiter.length !== 1 || `"\r\n`.includes(delimiter)) {
+    throw new TypeError(`Invalid delimiter ${JSON.stringify(delimiter)}`);
+  }
+
+  return async function* (it) {
+    const parser = new CsvParser(delimiter);
+    let columns = Array.isArray(options?.header) ? options.header : undefined;
+    let index = 0;
+
+    const emit = function* (records: CsvRecord[]) {
+      for (const record of records) {
+        const recordIndex = index++;
+        if ("error" in record) {
+          report(
+            options,
+            new MalformedRecordError(record.error, record.raw, recordIndex),
+          );
+        } else if (options?.header === true && !columns) {
+          columns = record.fields;
+        } else if (!columns) {
+          yield record.fields;
+        } else if (record.fields.length !== columns.length) {
+          report(
+            options,
+            new MalformedRecordError(
+              `Expected ${columns.length} fields but got ${record.fields.length}`,
+              record.raw,
+              recordIndex,
+            ),
+          );
+        } else {
+          yield Object.fromEntries(
+            columns.map((column, i) => [column, record.fields[i]]),
+          );
+        }
+      }
+    };
+
+    for await (const chunk of it) {
+      yield* emit(parser.push(chunk));
+    }
+
+    yield* emit(parser.end());
+  };
+}
+
+/**
+ * Creates a new pipeable function that splits chunks of bytes into frames, each preceded by its
+ * length as an unsigned integer. Frames may span chunks. Frames longer than `maxFrameLength` are
+ * skipped, and bytes left over on completion form a truncated frame; both are malformed records.
+ * @param {FrameOptions} options The length prefix, maximum frame length and callback for
+ * malformed records.
+ * @returns {Pipeable<Uint8Array, Uint8Array>} The pipeable function.
+ * @throws {TypeError} If the prefix size or maximum frame length is invalid.
+ */
+export function lengthPrefixedFrames(
+  options?: FrameOptions,
+): Pipeable<Uint8Array, Uint8Array> {
+  const lengthBytes = options?.lengthBytes ?? 4;
+  const littleEndian = options?.littleEndian === true;
+  const maxFrameLength = options?.maxFrameLength ?? Infinity;
+
+  if (![1, 2, 4].includes(lengthBytes)) {
+    throw new TypeError(`Invalid length prefix size ${lengthBytes}`);
+  }
+
+  if (!(maxFrameLength >= 0)) {
+    throw new TypeError(`Invalid buffer size ${maxFrameLength}`);
+  }
+
+  const readLength = (view: DataView, offset: number) =>
+    lengthBytes === 1
+      ? view.getUint8(offset)
+      : lengthBytes === 2
+      ? view.getUint16(offset, littleEndian)
+      : view.getUint32(offset, littleEndian);
+
+  return async function* (it) {
+    let buffer: Uint8Array = new Uint8Array(0);
+    let skipping = 0;
+    let index = 0;
+
+    for await (const chunk of it) {
+      buffer = concat(buffer, chunk);
+
+      let offset = 0;
+      while (true) {
+        if (skipping > 0) {
+          const skipped = Math.min(skipping, buffer.length - offset);
+          skipping -= skipped;
+          offset += skipped;
+          if (skipping > 0) {
+            break;
+          }
+        }
+
+        if (buffer.length - offset < lengthBytes) {
+          break;
+        }
+
+        const view = new DataView(
+          buffer.buffer,
+          buffer.byteOffset,
+          buffer.byteLength,
+        );
+        const length = readLength(view, offset);
+        if (length > maxFrameLength) {
+          skipping = length;
+          offset += lengthBytes;
+          report(
+            options,
+            new MalformedRecordError(
+              `Frame length ${length} exceeds ${maxFrameLength}`,
+              buffer.slice(offset - lengthBytes, offset),
+              index++,
+            ),
+          );
+          continue;
+        }
+
+        if (buffer.length - offset - lengthBytes < length) {
+          break;
+        }
+
+        offset += lengthBytes;
+        yield buffer.slice(offset, offset + length);
+        offset += length;
+        index++;
+      }
+
+      buffer = buffer.subarray(offset);
+    }
+
+    if (buffer.length > 0) {
+      report(
+        options,
+        new MalformedRecordError("Truncated frame", buffer.slice(), index),
+      );
+    }
+  };
+}
+
+type CsvRecord = { fields: string[]; raw: string } | {
+  error: string;
+  raw: string;
+};
+
+/**
+ * A CSV state machine fed with chunks, which holds on to the record in
+ * progress between them.
+ */
+class CsvParser {
+  readonly #delimiter: string;
+  #fields: string[] = [];
+  #field = "";
+  #raw = "";
+  #quoted = false;
+  #closingQuote = false;
+  #wasQuoted = false;
+  #afterCR = false;
+  #error: string | undefined;
+
+  constructor(delimiter: string) {
+    this.#delimiter = delimiter;
+  }
+
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    for (const char of chunk) {
+      const afterCR = this.#afterCR;
+      this.#afterCR = false;
+
+      if (this.#quoted) {
+        if (!this.#closingQuote) {
+          this.#raw += char;
+          if (char === '"') {
+            this.#closingQuote = true;
+          } else {
+            this.#field += char;
+          }
+          continue;
+        }
+
+        this.#closingQuote = false;
+        if (char === '"') {
+          this.#raw += char;
+          this.#field += char;
+          continue;
+        }
+
+        this.#quoted = false;
+      }
+
+      if (char === "\r" || char === "\n") {
+        if (char === "\n" && afterCR) {
+          continue;
+        }
+
+        this.#afterCR = char === "\r";
+        this.#endRecord(records);
+        continue;
+      }
+
+      this.#raw += char;
+      if (this.#error) {
+        continue;
+      }
+
+      if (char === this.#delimiter) {
+        this.#endField();
+      } else if (this.#wasQuoted) {
+        this.#error = "Unexpected character after a quoted field";
+      } else if (char === '"') {
+        if (this.#field.length > 0) {
+          this.#error = "Unexpected quote in an unquoted field";
+        } else {
+          this.#quoted = true;
+          this.#wasQuoted = true;
+        }
+      } else {
+        this.#field += char;
+      }
+    }
+
+    return records;
+  }
+
+  end(): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    if (this.#quoted && !this.#closingQuote) {
+      records.push({ error: "Unterminated quoted field", raw: this.#raw });
+      this.#reset();
+    } else {
+      this.#quoted = false;
+      this.#closingQuote = false;
+      this.#endRecord(records);
+    }
+
+    return records;
+  }
+
+  #endField(): void {
+    this.#fields.push(this.#field);
+    this.#field = "";
+    this.#wasQuoted = false;
+  }
+
+  #endRecord(records: CsvRecord[]): void {
+    if (this.#error) {
+      records.push({ error: this.#error, raw: this.#raw });
+    } else if (this.#raw.length > 0) {
+      this.#endField();
+      records.push({ fields: this.#fields, raw: this.#raw });
+    }
+
+    this.#reset();
+  }
+
+  #reset(): void {
+    this.#fields = [];
+    this.#field = "";
+    this.#raw = "";
+    this.#quoted = false;
+    this.#closingQuote = false;
+    this.#wasQuoted = false;
+    this.#error = undefined;
+  }
+}
+
+function report(
+  options: DecodeOptions | undefined,
+  error: MalformedRecordError,
+): void {
+  options?.onError?.(error);
+}
+
+function trimCR(line: string): string {
+  return line.endsWith("\r") ? line.slice(0, -1) : line;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) {
+    return b;
+  }
+
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
@@ -1,4 +1,17 @@
+import type { Executor } from "../executor.ts";
+import type { JobPool } from "../JobPool.ts";
+import type { IterableLike } from "../IterableLike.ts";
+import type {
+  CancellationController,
+  CancellationToken,
+} from "../../cancellation/CancellationToken.ts";
+import type { RateLimit } from "../resiliency/rate.limit.ts";
+import { createCancellation } from "../../cancellation/createCancellation.ts";
+import { __combineLimits } from "../resiliency/RateLimiter.ts";
+import { delay } from "../delay.ts";
+import { fromIterableLike } from "../fromIterableLike.ts";
 import { Pipeable } from "./Pipeable.ts";
+import { __timedIterator } from "./__utils.ts";
 
 /**
  * @fileoverview This file contains pipeable functions for asynchronous operations.
@@ -21,6 +34,140 @@ export function map<T = unknown, R = T>(
   });
 }
 
+/**
+ * Creates a new pipeable function that applies an async mapper function to up to `concurrency`
+ * values at once. In `ordered` mode (default) the mapped values are emitted in source order,
+ * otherwise they are emitted in completion order. When an `executor` (an `Executor` or
+ * `JobPool`) is provided, the mapper invocations are submitted to it, allowing an existing pool
+ * to bound the work. A failing mapper ends the pipeline with its error.
+ * @template T The type of the input values.
+ * @template R The type of the output values.
+ * @param {(t: T, index: number) => Promise<R> | R} mapper The mapper function to apply to each value.
+ * @param {{ concurrency: number; ordered?: boolean; executor?: Executor | JobPool }} options The concurrency options.
+ * @returns {Pipeable<T, R>} The pipeable function.
+ * @throws {TypeError} If the concurrency is invalid.
+ */
+export function mapConcurrent<T = unknown, R = T>(
+  mapper: (t: T, index: number) => Promise<R> | R,
+  options: {
+    concurrency: number;
+    ordered?: boolean;
+    executor?: Executor | JobPool;
+  },
+): Pipeable<T, R> {
+  const { concurrency, executor } = options;
+  const ordered = options.ordered !== false;
+
+  if (
+    !(concurrency >= 1) ||
+    (concurrency !== Infinity && !Number.isInteger(concurrency))
+  ) {
+    throw new TypeError(`Invalid concurrency ${concurrency}`);
+  }
+
+  const invoke = (value: T, index: number): Promise<R> => {
+    const job = () => mapper(value, index);
+    if (!executor) {
+      return Promise.resolve().then(job);
+    }
+    return "submit" in executor ? executor.submit(job) : executor.execute(job);
+  };
+
+  return async function* (source) {
+    const running = new Map<number, Promise<Mapped<R>>>();
+    const completed = new Map<number, R>();
+    let pull: Promise<IteratorResult<T>> | undefined;
+    let sourceDone = false;
+    let started = 0;
+    let emitted = 0;
+    try {
+      while (true) {
+        if (
+          !sourceDone &&
+          pull === undefined &&
+          running.size + completed.size < concurrency
+        ) {
+          pull = source.next();
+        }
+
+        if (pull === undefined && running.size === 0) {
+          break;
+        }
+
+        const event = await Promise.race<Mapped<R> | Pulled<T>>([
+          ...running.values(),
+          ...(pull ? [pull.then((result) => ({ result }))] : []),
+        ]);
+
+        if ("result" in event) {
+          pull = undefined;
+          if (event.result.done) {
+            sourceDone = true;
+          } else {
+            const index = started++;
+            running.set(
+              index,
+              invoke(event.result.value, index).then((value) => ({
+                index,
+                value,
+              })),
+            );
+          }
+          continue;
+        }
+
+        running.delete(event.index);
+        if (!ordered) {
+          yield event.value;
+          continue;
+        }
+
+        completed.set(event.index, event.value);
+        while (completed.has(emitted)) {
+          const value = completed.get(emitted)!;
+          completed.delete(emitted++);
+          yield value;
+        }
+      }
+    } finally {
+      for (const task of running.values()) {
+        task.catch(() => {});
+      }
+
+      if (pull) {
+        pull.catch(() => {});
+        source.return(undefined).catch(() => {});
+      } else {
+        await source.return(undefined);
+      }
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that delays each value until every rate limit allows it. The
+ * cost of a value is determined by the cost calculator of a variable limit, which is passed a
+ * function returning the value. Values are never dropped; the source is not pulled while a value
+ * waits, so the pacing propagates upstream as backpressure. The token buckets are shared by every
+ * iteration of the pipeline.
+ * @template T The type of the input values.
+ * @param {RateLimit[]} limits The rate limits to satisfy.
+ * @returns {Pipeable<T>} The pipeable function.
+ * @throws {Error} If no limits are specified.
+ */
+export function rateLimit<T>(limits: RateLimit[]): Pipeable<T> {
+  const consumeOrGetDelay = __combineLimits(limits);
+  return async function* (it) {
+    for await (const item of it) {
+      let delayMillis: number;
+      while ((delayMillis = consumeOrGetDelay(() => item)) > 0) {
+        await delay(delayMillis);
+      }
+      yield item;
+    }
+  };
+}
+
 /**
  * Creates a new pipeable function that filters values in the pipeline based on a predicate function.
  * @template T The type of the input values.
@@ -45,6 +192,96 @@ export function filter<T = unknown>(
   });
 }
 
+/**
+ * Creates a new pipeable function that skips values equal to the value emitted before them.
+ * @template T The type of the input values.
+ * @param {(a: T, b: T) => boolean} [equals] The equality function, `Object.is` by default.
+ * @returns {Pipeable<T>} The pipeable function.
+ */
+export function distinctUntilChanged<T = unknown>(
+  equals: (a: T, b: T) => boolean = Object.is,
+): Pipeable<T> {
+  return Pipeable.from<T>(() => {
+    let last: { value: T } | undefined;
+    return async (value, flow) => {
+      while (last && equals(last.value, value)) {
+        const result = await flow.continue();
+        if (result.done) {
+          return flow.break();
+        }
+        value = result.value;
+      }
+
+      last = { value };
+      return flow.asResult(value);
+    };
+  });
+}
+
+/**
+ * Creates a new pipeable function that skips values whose key has been seen before. To bound the
+ * memory of long-lived pipelines, the least recently seen key is forgotten once there are more
+ * than `maxKeys` keys, and keys are forgotten once they have not been seen for `ttl` milliseconds,
+ * after which their values are emitted again.
+ * @template T The type of the input values.
+ * @template K The type of the keys.
+ * @param {(t: T) => K} [keyFn] The function returning the key of a value, the value by default.
+ * @param {{ maxKeys?: number; ttl?: number }} [options] The bounds of the remembered keys.
+ * @returns {Pipeable<T>} The pipeable function.
+ * @throws {TypeError} If `maxKeys` or `ttl` is invalid.
+ */
+export function distinct<T = unknown, K = T>(
+  keyFn: (t: T) => K = (t) => t as unknown as K,
+  options?: { maxKeys?: number; ttl?: number },
+): Pipeable<T> {
+  const maxKeys = options?.maxKeys ?? Infinity;
+  const ttl = options?.ttl ?? Infinity;
+
+  if (!(maxKeys >= 1) || (maxKeys !== Infinity && !Number.isInteger(maxKeys))) {
+    throw new TypeError(`Invalid maxKeys ${maxKeys}`);
+  }
+
+  if (!(ttl > 0)) {
+    throw new TypeError(`Invalid duration ${ttl}`);
+  }
+
+  return Pipeable.from<T>(() => {
+    // keys ordered from the least to the most recently seen, with the time
+    // they were last seen
+    const seen = new Map<K, number>();
+
+    const isNew = (key: K) => {
+      const now = Date.now();
+      for (const [oldest, seenAt] of seen) {
+        if (now - seenAt < ttl) {
+          break;
+        }
+        seen.delete(oldest);
+      }
+
+      const known = seen.delete(key);
+      seen.set(key, now);
+      if (seen.size > maxKeys) {
+        seen.delete(seen.keys().next().value!);
+      }
+
+      return !known;
+    };
+
+    return async (value, flow) => {
+      while (!isNew(keyFn(value))) {
+        const result = await flow.continue();
+        if (result.done) {
+          return flow.break();
+        }
+        value = result.value;
+      }
+
+      return flow.asResult(value);
+    };
+  });
+}
+
 /**
  * Creates a new pipeable function that composes multiple async generators into a single pipeline.
  * @template T The type of the input values.
@@ -63,6 +300,35 @@ export function compose<T = unknown, R = T>(
   });
 }
 
+/**
+ * Creates a new pipeable function that maps each value to an inner iterable and emits the values
+ * of the latest one. When a new value arrives, the token passed to the mapper of the active inner
+ * iterable is cancelled and the inner iterable is returned.
+ * @template T The type of the input values.
+ * @template R The type of the output values.
+ * @param {(t: T, cancellationToken: CancellationToken) => IterableLike<R>} mapper The function returning the inner iterable.
+ * @returns {Pipeable<T, R>} The pipeable function.
+ */
+export function switchMap<T, R>(
+  mapper: (t: T, cancellationToken: CancellationToken) => IterableLike<R>,
+): Pipeable<T, R> {
+  return mapInner(mapper, true);
+}
+
+/**
+ * Creates a new pipeable function that maps each value to an inner iterable and emits its values,
+ * ignoring the values that arrive while an inner iterable is active.
+ * @template T The type of the input values.
+ * @template R The type of the output values.
+ * @param {(t: T, cancellationToken: CancellationToken) => IterableLike<R>} mapper The function returning the inner iterable.
+ * @returns {Pipeable<T, R>} The pipeable function.
+ */
+export function exhaustMap<T, R>(
+  mapper: (t: T, cancellationToken: CancellationToken) => IterableLike<R>,
+): Pipeable<T, R> {
+  return mapInner(mapper, false);
+}
+
 /**
  * Creates a new pipeable function that allows peeking at each value in the pipeline without modifying it.
  * @template T The type of the input values.
@@ -80,6 +346,29 @@ export function peek<T = unknown>(
   });
 }
 
+/**
+ * Creates a new pipeable function that emits the running accumulation of the values in the
+ * pipeline, starting from the seed.
+ * @template T The type of the input values.
+ * @template R The type of the accumulated values.
+ * @param {(acc: R, t: T, index: number) => Promise<R> | R} accumulator The accumulator function.
+ * @param {R} seed The initial accumulated value.
+ * @returns {Pipeable<T, R>} The pipeable function.
+ */
+export function scan<T = unknown, R = T>(
+  accumulator: (acc: R, t: T, index: number) => Promise<R> | R,
+  seed: R,
+): Pipeable<T, R> {
+  return Pipeable.from<T, R>(() => {
+    let acc = seed;
+    let index = 0;
+    return async (value, flow) => {
+      acc = await accumulator(acc, value, index++);
+      return flow.asResult(acc);
+    };
+  });
+}
+
 /**
  * Creates a new pipeable function that skips values in the pipeline until a predicate is satisfied.
  * @template T The type of the input values.
@@ -160,6 +449,81 @@ export function resumeOnError<T>(
   };
 }
 
+/**
+ * Creates a new pipeable function that continues with the values of the fallback returned by the
+ * selector when the source fails. Errors thrown into the pipeline by downstream consumers are not
+ * caught.
+ * @template T The type of the input values.
+ * @param {(error: unknown) => IterableLike<T> | Promise<IterableLike<T>>} selector The function returning the fallback.
+ * @returns {Pipeable<T>} The pipeable function.
+ */
+export function catchError<T>(
+  selector: (error: unknown) => IterableLike<T> | Promise<IterableLike<T>>,
+): Pipeable<T> {
+  return onSourceError<T>(async function* (error) {
+    yield* fromIterableLike(await selector(error));
+  });
+}
+
+/**
+ * Creates a new pipeable function that emits the value and completes when the source fails.
+ * @template T The type of the input values.
+ * @param {T} value The value emitted in place of the error.
+ * @returns {Pipeable<T>} The pipeable function.
+ */
+export function onErrorReturn<T>(value: T): Pipeable<T> {
+  return onSourceError<T>(async function* () {
+    yield value;
+  });
+}
+
+/**
+ * Creates a new pipeable function that calls the callback when the source fails, before the error
+ * is propagated.
+ * @template T The type of the input values.
+ * @param {(error: unknown) => void | Promise<void>} cb The function to call with the error.
+ * @returns {Pipeable<T>} The pipeable function.
+ */
+export function doOnError<T>(
+  cb: (error: unknown) => void | Promise<void>,
+): Pipeable<T> {
+  // deno-lint-ignore require-yield
+  return onSourceError<T>(async function* (error) {
+    await cb(error);
+    throw error;
+  });
+}
+
+/**
+ * Creates a new pipeable function that calls the callback when the source completes successfully.
+ * @template T The type of the input values.
+ * @param {() => void | Promise<void>} cb The function to call on completion.
+ * @returns {Pipeable<T>} The pipeable function.
+ */
+export function doOnComplete<T>(cb: () => void | Promise<void>): Pipeable<T> {
+  return async function* (it) {
+    yield* it;
+    await cb();
+  };
+}
+
+/**
+ * Creates a new pipeable function that calls the callback once the pipeline terminates, whether it
+ * completes, fails or is cancelled.
+ * @template T The type of the input values.
+ * @param {() => void | Promise<void>} cb The cleanup function.
+ * @returns {Pipeable<T>} The pipeable function.
+ */
+export function finalize<T>(cb: () => void | Promise<void>): Pipeable<T> {
+  return async function* (it) {
+    try {
+      yield* it;
+    } finally {
+      await cb();
+    }
+  };
+}
+
 /**
  * Creates a new pipeable function that chunks values in the pipeline into arrays of a specified size.
  * @template T The type of the input values.
@@ -191,3 +555,610 @@ export function chunk<T>(size: number): Pipeable<T, T[]> {
     }
   };
 }
+
+/**
+ * Creates a new pipeable function that only emits a value once the specified time has passed
+ * without another value being emitted by the source. A pending value is flushed when the source
+ * completes.
+ * @template T The type of the input values.
+ * @param {number} ms The quiet period in milliseconds.
+ * @returns {Pipeable<T>} The pipeable function.
+ * @throws {TypeError} If the duration is invalid.
+ */
+export function debounce<T>(ms: number): Pipeable<T> {
+  assertDuration(ms);
+
+  return async function* (source) {
+    const it = __timedIterator(source);
+    let latest: { value: T } | undefined;
+    try {
+      while (true) {
+        const result = await it.next(latest ? ms : undefined);
+        if (result === undefined) {
+          const { value } = latest!;
+          latest = undefined;
+          yield value;
+          continue;
+        }
+
+        if (result.done) {
+          break;
+        }
+
+        latest = { value: result.value };
+      }
+
+      if (latest) {
+        yield latest.value;
+      }
+    } finally {
+      await it.return();
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that emits at most one value per time window.
+ *
+ * With `leading` (default `true`) the first value of a window is emitted immediately. With
+ * `trailing` (default `false`) the last value received during a window is emitted when the
+ * window closes, which starts a new window. A pending trailing value is flushed when the source
+ * completes.
+ * @template T The type of the input values.
+ * @param {number} ms The length of the throttle window in milliseconds.
+ * @param {{ leading?: boolean; trailing?: boolean }} [options] The edges on which to emit.
+ * @returns {Pipeable<T>} The pipeable function.
+ * @throws {TypeError} If the duration is invalid, or neither edge emits.
+ */
+export function throttle<T>(
+  ms: number,
+  options?: { leading?: boolean; trailing?: boolean },
+): Pipeable<T> {
+  assertDuration(ms);
+
+  const leading = options?.leading !== false;
+  const trailing = options?.trailing === true;
+  if (!leading && !trailing) {
+    throw new TypeError("Throttle must emit on the leading or trailing edge");
+  }
+
+  return async function* (source) {
+    const it = __timedIterator(source);
+    let windowEnd = 0;
+    let trailingValue: { value: T } | undefined;
+    try {
+      while (true) {
+        const result = await it.next(
+          trailingValue ? windowEnd - Date.now() : undefined,
+        );
+
+        if (result === undefined) {
+          const { value } = trailingValue!;
+          trailingValue = undefined;
+          windowEnd = Date.now() + ms;
+          yield value;
+          continue;
+        }
+
+        if (result.done) {
+          break;
+        }
+
+        if (Date.now() >= windowEnd) {
+          windowEnd = Date.now() + ms;
+          if (leading) {
+            yield result.value;
+            continue;
+          }
+        }
+
+        if (trailing) {
+          trailingValue = { value: result.value };
+        }
+      }
+
+      if (trailingValue) {
+        yield trailingValue.value;
+      }
+    } finally {
+      await it.return();
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that emits the most recent value at every interval, skipping
+ * intervals in which the source emitted nothing new. A pending value is flushed when the source
+ * completes.
+ * @template T The type of the input values.
+ * @param {number} ms The sampling interval in milliseconds.
+ * @returns {Pipeable<T>} The pipeable function.
+ * @throws {TypeError} If the interval is invalid.
+ */
+export function sample<T>(ms: number): Pipeable<T> {
+  assertDuration(ms);
+
+  if (ms === 0) {
+    throw new TypeError("Sample interval must be greater than 0");
+  }
+
+  return async function* (source) {
+    const it = __timedIterator(source);
+    const start = Date.now();
+    let latest: { value: T } | undefined;
+    try {
+      while (true) {
+        const result = await it.next(
+          latest ? nextTick(start, ms) - Date.now() : undefined,
+        );
+
+        if (result === undefined) {
+          const { value } = latest!;
+          latest = undefined;
+          yield value;
+          continue;
+        }
+
+        if (result.done) {
+          break;
+        }
+
+        latest = { value: result.value };
+      }
+
+      if (latest) {
+        yield latest.value;
+      }
+    } finally {
+      await it.return();
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that collects values into arrays, emitting an array once the
+ * specified time has passed since its first value or once it reaches `maxSize` values. A
+ * partially filled array is flushed when the source completes.
+ * @template T The type of the input values.
+ * @param {number} ms The maximum time in milliseconds to collect values for each array.
+ * @param {number} [maxSize] The maximum number of values in each array.
+ * @returns {Pipeable<T, T[]>} The pipeable function.
+ * @throws {TypeError} If the duration or size is invalid.
+ */
+export function bufferTime<T>(
+  ms: number,
+  maxSize: number = Infinity,
+): Pipeable<T, T[]> {
+  assertDuration(ms);
+
+  if (maxSize < 1 || Number.isNaN(maxSize)) {
+    throw new TypeError(`Invalid buffer size ${maxSize}`);
+  }
+
+  if (maxSize !== Infinity && !Number.isInteger(maxSize)) {
+    throw new TypeError(`Buffer size must be an integer, got ${maxSize}`);
+  }
+
+  return async function* (source) {
+    const it = __timedIterator(source);
+    let buffer: T[] = [];
+    let bufferEnd = 0;
+    try {
+      while (true) {
+        const result = await it.next(
+          buffer.length > 0 ? bufferEnd - Date.now() : undefined,
+        );
+
+        if (result?.done) {
+          break;
+        }
+
+        if (result !== undefined) {
+          if (buffer.length === 0) {
+            bufferEnd = Date.now() + ms;
+          }
+
+          buffer.push(result.value);
+          if (buffer.length < maxSize) {
+            continue;
+          }
+        }
+
+        const toYield = buffer;
+        buffer = [];
+        yield toYield;
+      }
+
+      if (buffer.length > 0) {
+        yield buffer;
+      }
+    } finally {
+      await it.return();
+    }
+  };
+}
+
+/**
+ * An event of the windows over a pipeline: a window opens, a value is added to every open window,
+ * or the oldest open window closes, `flushed` when it closes because the source completed. As all
+ * the windows of a pipeline last as long, they always close in the order they were opened.
+ * @template T The type of the values.
+ */
+export type WindowEvent<T> =
+  | { kind: "open" }
+  | { kind: "next"; value: T }
+  | { kind: "close"; flushed: boolean };
+
+const OPEN = Object.freeze({ kind: "open" as const });
+const CLOSE = Object.freeze({ kind: "close" as const, flushed: false });
+const FLUSH = Object.freeze({ kind: "close" as const, flushed: true });
+
+/**
+ * Creates a new pipeable function that collects values into windows of `size` values, a new window
+ * starting every `every` values. Windows are tumbling when `every` equals `size` (default),
+ * sliding when it is smaller and hopping, skipping values, when it is larger. Each window is
+ * emitted once full, and partially filled windows are flushed when the source completes.
+ * @template T The type of the input values.
+ * @param {number} size The number of values in each window.
+ * @param {number} [every] The number of values between the starts of windows.
+ * @returns {Pipeable<T, T[]>} The pipeable function.
+ * @throws {TypeError} If the size or step is invalid.
+ */
+export function windowCount<T>(
+  size: number,
+  every: number = size,
+): Pipeable<T, T[]> {
+  return collectWindows(windowCountEvents<T>(size, every));
+}
+
+/**
+ * Creates a new pipeable function that emits the events of the count windows of `windowCount`.
+ * @template T The type of the input values.
+ * @param {number} size The number of values in each window.
+ * @param {number} [every] The number of values between the starts of windows.
+ * @returns {Pipeable<T, WindowEvent<T>>} The pipeable function.
+ * @throws {TypeError} If the size or step is invalid.
+ */
+export function windowCountEvents<T>(
+  size: number,
+  every: number = size,
+): Pipeable<T, WindowEvent<T>> {
+  for (const count of [size, every]) {
+    if (!(count >= 1) || !Number.isInteger(count)) {
+      throw new TypeError(`Invalid buffer size ${count}`);
+    }
+  }
+
+  return async function* (source) {
+    // the number of values in each open window, oldest first
+    const counts: number[] = [];
+    let index = 0;
+    for await (const item of source) {
+      if (index++ % every === 0) {
+        counts.push(0);
+        yield OPEN;
+      }
+
+      yield { kind: "next", value: item };
+      for (let i = 0; i < counts.length; i++) {
+        counts[i]++;
+      }
+
+      // the oldest window is the only one that can be full
+      if (counts[0] === size) {
+        counts.shift();
+        yield CLOSE;
+      }
+    }
+
+    for (const _ of counts) {
+      yield FLUSH;
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that collects values into windows lasting `ms` milliseconds, a
+ * new window starting every `every` milliseconds from the subscription. Windows are tumbling when
+ * `every` equals `ms` (default), sliding when it is smaller and hopping, skipping values, when it
+ * is larger. Each window is emitted when it closes, even when empty, and the open windows holding
+ * values are flushed when the source completes.
+ * @template T The type of the input values.
+ * @param {number} ms The duration of each window in milliseconds.
+ * @param {number} [every] The time between the starts of windows in milliseconds.
+ * @returns {Pipeable<T, T[]>} The pipeable function.
+ * @throws {TypeError} If the duration or period is invalid.
+ */
+export function windowTime<T>(
+  ms: number,
+  every: number = ms,
+): Pipeable<T, T[]> {
+  return collectWindows(windowTimeEvents<T>(ms, every));
+}
+
+/**
+ * Creates a new pipeable function that emits the events of the time windows of `windowTime`.
+ * @template T The type of the input values.
+ * @param {number} ms The duration of each window in milliseconds.
+ * @param {number} [every] The time between the starts of windows in milliseconds.
+ * @returns {Pipeable<T, WindowEvent<T>>} The pipeable function.
+ * @throws {TypeError} If the duration or period is invalid.
+ */
+export function windowTimeEvents<T>(
+  ms: number,
+  every: number = ms,
+): Pipeable<T, WindowEvent<T>> {
+  for (const duration of [ms, every]) {
+    assertDuration(duration);
+    if (duration === 0) {
+      throw new TypeError("Window duration must be greater than 0");
+    }
+  }
+
+  return async function* (source) {
+    const it = __timedIterator(source);
+    // the end of each open window, oldest first
+    const ends: number[] = [];
+    let nextStart = Date.now();
+
+    // windows hold the values received in [start, end)
+    const openAndCloseDue = function* () {
+      const now = Date.now();
+      while (nextStart <= now) {
+        ends.push(nextStart + ms);
+        nextStart += every;
+        yield OPEN;
+      }
+
+      while (ends.length > 0 && ends[0] <= now) {
+        ends.shift();
+        yield CLOSE;
+      }
+    };
+
+    try {
+      while (true) {
+        yield* openAndCloseDue();
+
+        const result = await it.next(
+          Math.min(nextStart, ends[0] ?? Infinity) - Date.now(),
+        );
+
+        if (result === undefined) {
+          continue;
+        }
+
+        if (result.done) {
+          break;
+        }
+
+        yield* openAndCloseDue();
+        yield { kind: "next", value: result.value };
+      }
+
+      for (const _ of ends) {
+        yield FLUSH;
+      }
+    } finally {
+      await it.return();
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that collects values into sessions, a session closing once
+ * `gapMs` milliseconds pass without a value. Each session is emitted when it closes, and a pending
+ * session is flushed when the source completes.
+ * @template T The type of the input values.
+ * @param {number} gapMs The inactivity gap in milliseconds that closes a session.
+ * @returns {Pipeable<T, T[]>} The pipeable function.
+ * @throws {TypeError} If the gap is invalid.
+ */
+export function sessionWindow<T>(gapMs: number): Pipeable<T, T[]> {
+  return collectWindows(sessionWindowEvents<T>(gapMs));
+}
+
+/**
+ * Creates a new pipeable function that emits the events of the sessions of `sessionWindow`.
+ * @template T The type of the input values.
+ * @param {number} gapMs The inactivity gap in milliseconds that closes a session.
+ * @returns {Pipeable<T, WindowEvent<T>>} The pipeable function.
+ * @throws {TypeError} If the gap is invalid.
+ */
+export function sessionWindowEvents<T>(
+  gapMs: number,
+): Pipeable<T, WindowEvent<T>> {
+  assertDuration(gapMs);
+
+  return async function* (source) {
+    const it = __timedIterator(source);
+    let inSession = false;
+    let sessionEnd = 0;
+    try {
+      while (true) {
+        const result = await it.next(
+          inSession ? sessionEnd - Date.now() : undefined,
+        );
+
+        if (result?.done) {
+          break;
+        }
+
+        if (result === undefined) {
+          inSession = false;
+          yield CLOSE;
+          continue;
+        }
+
+        if (!inSession) {
+          inSession = true;
+          yield OPEN;
+        }
+
+        yield { kind: "next", value: result.value };
+        sessionEnd = Date.now() + gapMs;
+      }
+
+      if (inSession) {
+        yield FLUSH;
+      }
+    } finally {
+      await it.return();
+    }
+  };
+}
+
+/**
+ * Creates a new pipeable function that collects the values of the windows described by the events
+ * into arrays, emitted when the windows close. Windows flushed on completion are only emitted when
+ * they hold values.
+ * @template T The type of the input values.
+ * @param {Pipeable<T, WindowEvent<T>>} events The pipeable function emitting the window events.
+ * @returns {Pipeable<T, T[]>} The pipeable function.
+ */
+export function collectWindows<T>(
+  events: Pipeable<T, WindowEvent<T>>,
+): Pipeable<T, T[]> {
+  return async function* (source) {
+    const windows: T[][] = [];
+    for await (const event of events(source)) {
+      switch (event.kind) {
+        case "open":
+          windows.push([]);
+          break;
+        case "next":
+          for (const window of windows) {
+            window.push(event.value);
+          }
+          break;
+        case "close": {
+          const window = windows.shift()!;
+          // windows are only flushed on completion when they hold values
+          if (!event.flushed || window.length > 0) {
+            yield window;
+          }
+        }
+      }
+    }
+  };
+}
+
+function assertDuration(ms: number): void {
+  if (ms < 0 || ms === Infinity || Number.isNaN(ms)) {
+    throw new TypeError(`Invalid duration ${ms}`);
+  }
+}
+
+function nextTick(start: number, ms: number): number {
+  const elapsed = Date.now() - start;
+  return start + (Math.floor(elapsed / ms) + 1) * ms;
+}
+
+type Mapped<R> = { index: number; value: R };
+
+type Pulled<T> = { result: IteratorResult<T> };
+
+function onSourceError<T>(
+  handler: (error: unknown) => AsyncGenerator<T>,
+): Pipeable<T> {
+  return async function* (it) {
+    try {
+      while (true) {
+        let result: IteratorResult<T>;
+        try {
+          result = await it.next();
+        } catch (error) {
+          yield* handler(error);
+          return;
+        }
+
+        if (result.done) {
+          return;
+        }
+
+        yield result.value;
+      }
+    } finally {
+      await it.return(undefined);
+    }
+  };
+}
+
+type Inner<R> = {
+  it: AsyncGenerator<R>;
+  cancellation: CancellationController;
+  pull?: Promise<IteratorResult<R>>;
+};
+
+function mapInner<T, R>(
+  mapper: (t: T, cancellationToken: CancellationToken) => IterableLike<R>,
+  switchToLatest: boolean,
+): Pipeable<T, R> {
+  const dispose = (inner?: Inner<R>) => {
+    if (inner) {
+      inner.cancellation.cancel();
+      inner.pull?.catch(() => {});
+      inner.it.return(undefined).catch(() => {});
+    }
+  };
+
+  return async function* (source) {
+    let outer: Promise<IteratorResult<T>> | undefined;
+    let outerDone = false;
+    let inner: Inner<R> | undefined;
+    try {
+      while (true) {
+        if (!outerDone) {
+          outer ??= source.next();
+        }
+
+        if (inner) {
+          inner.pull ??= inner.it.next();
+        }
+
+        if (!outer && !inner) {
+          break;
+        }
+
+        const event = await Promise.race<
+          Pulled<T> | { inner: IteratorResult<R> }
+        >([
+          ...(outer ? [outer.then((result) => ({ result }))] : []),
+          ...(inner?.pull ? [inner.pull.then((inner) => ({ inner }))] : []),
+        ]);
+
+        if ("inner" in event) {
+          inner!.pull = undefined;
+          if (event.inner.done) {
+            inner = undefined;
+          } else {
+            yield event.inner.value;
+          }
+          continue;
+        }
+
+        outer = undefined;
+        if (event.result.done) {
+          outerDone = true;
+        } else if (!inner || switchToLatest) {
+          dispose(inner);
+          const cancellation = createCancellation();
+          inner = {
+            it: fromIterableLike(
+              mapper(event.result.value, cancellation.token),
+            ),
+            cancellation,
+          };
+        }
+      }
+    } finally {
+      dispose(inner);
+      if (outer) {
+        outer.catch(() => {});
+        source.return(undefined).catch(() => {});
+      } else {
+        await source.return(undefined);
+      }
+    }
+  };
+}
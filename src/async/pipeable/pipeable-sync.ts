@@ -0,0 +1,385 @@
+import type { Pipeable } from "./Pipeable.ts";
+import { fromIterableLike } from "../fromIterableLike.ts";
+import * as p from "./pipeable-funcs.ts";
+
+/**
+ * @fileoverview This file contains the synchronous counterparts of the pipeable functions, which
+ * transform plain iterables without the promise overhead of async generators.
+ * @module async/pipeable/pipeable-sync
+ */
+
+/**
+ * Represents a synchronous pipeable function that transforms an iterable of type `T` into a
+ * generator of type `R`. It carries its async counterpart, which `Pipeable.toIterable` uses when
+ * the input or another function of the pipeline is async.
+ *
+ * @template T The type of values in the input iterable.
+ * @template R The type of values in the output generator.
+ */
+export type SyncPipeable<T = unknown, R = T> =
+  & ((iterable: Iterable<T>) => Generator<R>)
+  & {
+    /** the async counterpart of the pipeable function */
+    readonly async: Pipeable<T, R>;
+  };
+
+/**
+ * Checks whether the pipeable function is synchronous.
+ * @param pipeable The pipeable function to check.
+ * @returns True if the pipeable function is a `SyncPipeable`.
+ */
+export function isSyncPipeable<T, R>(
+  pipeable: Pipeable<T, R> | SyncPipeable<T, R>,
+): pipeable is SyncPipeable<T, R> {
+  return typeof (pipeable as Partial<SyncPipeable<T, R>>).async === "function";
+}
+
+/**
+ * Creates a new synchronous pipeable function that applies a mapper function to each value.
+ * @template T The type of the input values.
+ * @template R The type of the output values.
+ * @param {(t: T, index: number) => R} mapper The mapper function to apply to each value.
+ * @returns {SyncPipeable<T, R>} The pipeable function.
+ */
+export function map<T = unknown, R = T>(
+  mapper: (t: T, index: number) => R,
+): SyncPipeable<T, R> {
+  return syncOf(function* (iterable) {
+    let index = 0;
+    for (const value of iterable) {
+      yield mapper(value, index++);
+    }
+  }, p.map(mapper));
+}
+
+/**
+ * Creates a new synchronous pipeable function that filters values based on a predicate function.
+ * @template T The type of the input values.
+ * @param {(t: T) => boolean} predicate The predicate function to filter values.
+ * @returns {SyncPipeable<T>} The pipeable function.
+ */
+export function filter<T = unknown>(
+  predicate: (t: T) => boolean,
+): SyncPipeable<T> {
+  return syncOf(function* (iterable) {
+    for (const value of iterable) {
+      if (predicate(value)) {
+        yield value;
+      }
+    }
+  }, p.filter(predicate));
+}
+
+/**
+ * Creates a new synchronous pipeable function that emits the values of the iterable each value is
+ * mapped to.
+ * @template T The type of the input values.
+ * @template R The type of the output values.
+ * @param {(t: T, index: number) => Iterable<R>} mapper The function returning the iterable.
+ * @returns {SyncPipeable<T, R>} The pipeable function.
+ */
+export function compose<T = unknown, R = T>(
+  mapper: (t: T, index: number) => Iterable<R>,
+): SyncPipeable<T, R> {
+  return syncOf(
+    function* (iterable) {
+      let index = 0;
+      for (const value of iterable) {
+        yield* mapper(value, index++);
+      }
+    },
+    p.compose((value: T, index) => fromIterableLike(mapper(value, index))),
+  );
+}
+
+/**
+ * Creates a new synchronous pipeable function that allows peeking at each value without modifying
+ * it.
+ * @template T The type of the input values.
+ * @param {(t: T) => void} fn The function to call for each value.
+ * @returns {SyncPipeable<T>} The pipeable function.
+ */
+export function peek<T = unknown>(fn: (t: T) => void): SyncPipeable<T> {
+  return syncOf(function* (iterable) {
+    for (const value of iterable) {
+      fn(value);
+      yield value;
+    }
+  }, p.peek(fn));
+}
+
+/**
+ * Creates a new synchronous pipeable function that emits the running accumulation of the values,
+ * starting from the seed.
+ * @template T The type of the input values.
+ * @template R The type of the accumulated values.
+ * @param {(acc: R, t: T, index: number) => R} accumulator The accumulator function.
+ * @param {R} seed The initial accumulated value.
+ * @returns {SyncPipeable<T, R>} The pipeable function.
+ */
+export function scan<T = unknown, R = T>(
+  accumulator: (acc: R, t: T, index: number) => R,
+  seed: R,
+): SyncPipeable<T, R> {
+  return syncOf(function* (iterable) {
+    let acc = seed;
+    let index = 0;
+    for (const value of iterable) {
+      acc = accumulator(acc, value, index++);
+      yield acc;
+    }
+  }, p.scan(accumulator, seed));
+}
+
+/**
+ * Creates a new synchronous pipeable function that skips values until a predicate is satisfied.
+ * @template T The type of the input values.
+ * @param {(value: T) => boolean} predicate The predicate function to skip values.
+ * @returns {SyncPipeable<T>} The pipeable function.
+ */
+export function skipUntil<T>(
+  predicate: (value: T) => boolean,
+): SyncPipeable<T> {
+  return syncOf(function* (iterable) {
+    let skipping = true;
+    for (const value of iterable) {
+      if (skipping && !predicate(value)) {
+        continue;
+      }
+
+      skipping = false;
+      yield value;
+    }
+  }, p.skipUntil(predicate));
+}
+
+/**
+ * Creates a new synchronous pipeable function that takes values until a predicate is not
+ * satisfied.
+ * @template T The type of the input values.
+ * @param {(value: T) => boolean} predicate The predicate function to take values.
+ * @returns {SyncPipeable<T>} The pipeable function.
+ */
+export function takeWhile<T>(
+  predicate: (value: T) => boolean,
+): SyncPipeable<T> {
+  return syncOf(function* (iterable) {
+    for (const value of iterable) {
+      if (!predicate(value)) {
+        return;
+      }
+
+      yield value;
+    }
+  }, p.takeWhile(predicate));
+}
+
+/**
+ * Creates a new synchronous pipeable function that continues with the values of the fallback
+ * returned by the selector when the source fails.
+ * @template T The type of the input values.
+ * @param {(error: unknown) => Iterable<T>} selector The function returning the fallback.
+ * @returns {SyncPipeable<T>} The pipeable function.
+ */
+export function catchError<T>(
+  selector: (error: unknown) => Iterable<T>,
+): SyncPipeable<T> {
+  return onSourceError<T>(function* (error) {
+    yield* selector(error);
+  }, p.catchError(selector));
+}
+
+/**
+ * Creates a new synchronous pipeable function that emits the value and completes when the source
+ * fails.
+ * @template T The type of the input values.
+ * @param {T} value The value emitted in place of the error.
+ * @returns {SyncPipeable<T>} The pipeable function.
+ */
+export function onErrorReturn<T>(value: T): SyncPipeable<T> {
+  return onSourceError<T>(function* () {
+    yield value;
+  }, p.onErrorReturn(value));
+}
+
+/**
+ * Creates a new synchronous pipeable function that resumes the pipeline after an error is thrown
+ * into it, optionally handling the error.
+ * @template T The type of the input values.
+ * @param {(error: unknown) => boolean} [onError] The error handler function.
+ *        Return `true` to resume iteration, `false` to re-throw the error.
+ *        If not provided, all errors are swallowed and iteration continues.
+ * @returns {SyncPipeable<T>} The pipeable function.
+ */
+export function resumeOnError<T>(
+  onError?: (error: unknown) => boolean,
+): SyncPipeable<T> {
+  return syncOf(function* (iterable) {
+    const it = iterable[Symbol.iterator]();
+    while (true) {
+      const result = it.next();
+      if (result.done) {
+        return;
+      }
+
+      try {
+        yield result.value;
+      } catch (error) {
+        if (onError && !onError(error)) {
+          it.throw?.(error);
+          throw error;
+        }
+      }
+    }
+  }, p.resumeOnError(onError));
+}
+
+/**
+ * Creates a new synchronous pipeable function that calls the callback when the source fails,
+ * before the error is propagated.
+ * @template T The type of the input values.
+ * @param {(error: unknown) => void} cb The function to call with the error.
+ * @returns {SyncPipeable<T>} The pipeable function.
+ */
+export function doOnError<T>(cb: (error: unknown) => void): SyncPipeable<T> {
+  // deno-lint-ignore require-yield
+  return onSourceError<T>(function* (error) {
+    cb(error);
+    throw error;
+  }, p.doOnError(cb));
+}
+
+/**
+ * Creates a new synchronous pipeable function that calls the callback when the source completes
+ * successfully.
+ * @template T The type of the input values.
+ * @param {() => void} cb The function to call on completion.
+ * @returns {SyncPipeable<T>} The pipeable function.
+ */
+export function doOnComplete<T>(cb: () => void): SyncPipeable<T> {
+  return syncOf(function* (iterable) {
+    yield* iterable;
+    cb();
+  }, p.doOnComplete(cb));
+}
+
+/**
+ * Creates a new synchronous pipeable function that calls the callback once the pipeline
+ * terminates, whether it completes, fails or is returned early.
+ * @template T The type of the input values.
+ * @param {() => void} cb The cleanup function.
+ * @returns {SyncPipeable<T>} The pipeable function.
+ */
+export function finalize<T>(cb: () => void): SyncPipeable<T> {
+  return syncOf(function* (iterable) {
+    try {
+      yield* iterable;
+    } finally {
+      cb();
+    }
+  }, p.finalize(cb));
+}
+
+/**
+ * Creates a new synchronous pipeable function that chunks values into arrays of a specified size.
+ * @template T The type of the input values.
+ * @param {number} size The size of each chunk.
+ * @returns {SyncPipeable<T, T[]>} The pipeable function.
+ * @throws {TypeError} If the size is invalid.
+ */
+export function chunk<T>(size: number): SyncPipeable<T, T[]> {
+  const async = p.chunk<T>(size);
+  return syncOf(function* (iterable) {
+    let buffer: T[] = [];
+    for (const value of iterable) {
+      buffer.push(value);
+      if (buffer.length >= size) {
+        yield buffer;
+        buffer = [];
+      }
+    }
+
+    if (buffer.length > 0) {
+      yield buffer;
+    }
+  }, async);
+}
+
+/**
+ * Creates a new synchronous pipeable function that collects values into windows of `size` values,
+ * a new window starting every `every` values. Partially filled windows are flushed when the source
+ * completes.
+ * @template T The type of the input values.
+ * @param {number} size The number of values in each window.
+ * @param {number} [every] The number of values between the starts of windows.
+ * @returns {SyncPipeable<T, T[]>} The pipeable function.
+ * @throws {TypeError} If the size or step is invalid.
+ */
+export function windowCount<T>(
+  size: number,
+  every: number = size,
+): SyncPipeable<T, T[]> {
+  const async = p.windowCount<T>(size, every);
+  return syncOf(function* (iterable) {
+    const windows: T[][] = [];
+    let index = 0;
+    for (const value of iterable) {
+      if (index++ % every === 0) {
+        windows.push([]);
+      }
+
+      for (const window of windows) {
+        window.push(value);
+      }
+
+      if (windows[0]?.length === size) {
+        yield windows.shift()!;
+      }
+    }
+
+    yield* windows;
+  }, async);
+}
+
+function syncOf<T, R>(
+  sync: (iterable: Iterable<T>) => Generator<R>,
+  async: Pipeable<T, R>,
+): SyncPipeable<T, R> {
+  return Object.defineProperty(sync, "async", { value: async }) as SyncPipeable<
+    T,
+    R
+  >;
+}
+
+function onSourceError<T>(
+  handler: (error: unknown) => Generator<T>,
+  async: Pipeable<T>,
+): SyncPipeable<T> {
+  return syncOf(function* (iterable) {
+    const it = iterable[Symbol.iterator]();
+    let done = false;
+    try {
+      while (true) {
+        let result: IteratorResult<T>;
+        try {
+          result = it.next();
+        } catch (error) {
+          done = true;
+          yield* handler(error);
+          return;
+        }
+
+        if (result.done) {
+          done = true;
+          return;
+        }
+
+        yield result.value;
+      }
+    } finally {
+      if (!done) {
+        it.return?.();
+      }
+    }
+  }, async);
+}
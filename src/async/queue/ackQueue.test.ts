@@ -0,0 +1,196 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { ackQueue } from "./ackQueue.ts";
+import { asyncQueue } from "./asyncQueue.ts";
+import { QueueReadOnlyError } from "./errors.ts";
+import { withVirtualTime } from "../../testing/VirtualScheduler.ts";
+
+Deno.test("AckQueue ack removes the item", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = ackQueue<string>({ visibilityTimeout: 100 });
+    queue.enqueue("a");
+
+    const lease = await queue.receive();
+    assertEquals(lease.item, "a");
+    assertEquals(lease.deliveryCount, 1);
+    assertEquals(queue.size, { visible: 0, inFlight: 1 });
+
+    assert(lease.ack());
+    assert(!lease.ack());
+    assertEquals(queue.size, { visible: 0, inFlight: 0 });
+
+    await scheduler.advanceBy(1000);
+    assertEquals(queue.tryReceive(), { ok: false });
+
+    queue.close();
+  });
+});
+
+Deno.test("AckQueue redelivers after the visibility timeout", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = ackQueue<string>({ visibilityTimeout: 100 });
+    queue.enqueue("a");
+
+    const first = await queue.receive();
+    const second = queue.receive();
+
+    await scheduler.advanceBy(100);
+    const redelivered = await second;
+    assertEquals(redelivered.item, "a");
+    assertEquals(redelivered.deliveryCount, 2);
+
+    // the expired lease can no longer be settled
+    assert(!first.ack());
+    assert(!first.extend(100));
+    assert(redelivered.ack());
+
+    queue.close();
+  });
+});
+
+Deno.test("AckQueue extend pushes the visibility timeout back", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = ackQueue<string>({ visibilityTimeout: 100 });
+    queue.enqueue("a");
+
+    const lease = queue.tryReceive();
+    assert(lease.ok);
+
+    await scheduler.advanceBy(50);
+    assert(lease.value.extend(100));
+
+    await scheduler.advanceBy(149);
+    assertEquals(queue.tryReceive(), { ok: false });
+
+    await scheduler.advanceBy(1);
+    assertEquals(queue.size, { visible: 1, inFlight: 0 });
+    assertThrows(() => lease.value.extend(-1), TypeError);
+
+    queue.close();
+  });
+});
+
+Deno.test("AckQueue nack redelivers after the delay", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = ackQueue<string>({ visibilityTimeout: 1000 });
+    queue.enqueue("a");
+    queue.enqueue("b");
+
+    const a = await queue.receive();
+    assert(a.nack());
+    assert(!a.nack());
+
+    const b = await queue.receive();
+    assertEquals(b.item, "b");
+    assert(b.nack(50));
+
+    const again = await queue.receive();
+    assertEquals(again.item, "a");
+    assertEquals(again.deliveryCount, 2);
+    assertEquals(queue.tryReceive(), { ok: false });
+
+    await scheduler.advanceBy(50);
+    assertEquals(queue.tryReceive().value?.item, "b");
+
+    queue.close();
+  });
+});
+
+Deno.test("AckQueue settled leases can not be settled again", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = ackQueue<string>({ visibilityTimeout: 100 });
+    queue.enqueue("a");
+    queue.enqueue("b");
+
+    const a = await queue.receive();
+    assert(a.nack(50));
+    assert(!a.ack());
+    assert(!a.extend(100));
+    assertEquals(queue.size, { visible: 1, inFlight: 1 });
+
+    const b = await queue.receive();
+    assert(b.ack());
+    assert(!b.extend(100));
+    assert(!b.nack());
+
+    await scheduler.advanceBy(50);
+    assertEquals(queue.tryReceive().value?.item, "a");
+    assertEquals(queue.tryReceive(), { ok: false });
+
+    queue.close();
+  });
+});
+
+Deno.test("AckQueue moves items to the dead-letter queue", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const deadLetters = asyncQueue<string>();
+    const queue = ackQueue<string>({
+      visibilityTimeout: 100,
+      maxDeliveries: 2,
+      deadLetterQueue: deadLetters,
+    });
+
+    queue.enqueue("poison");
+    queue.enqueue("ok");
+
+    (await queue.receive()).nack();
+    (await queue.receive()).ack();
+    const last = await queue.receive();
+    assertEquals(last.deliveryCount, 2);
+
+    await scheduler.advanceBy(100);
+    assertEquals(queue.tryReceive(), { ok: false });
+    assertEquals(deadLetters.tryDequeue(), { value: "poison", ok: true });
+    assert(queue.isEmpty);
+
+    queue.close();
+  });
+});
+
+Deno.test("AckQueue dead-letters a last delivery without another receive", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const deadLetters = asyncQueue<string>();
+    const queue = ackQueue<string>({
+      visibilityTimeout: 100,
+      maxDeliveries: 1,
+      deadLetterQueue: deadLetters,
+    });
+
+    queue.enqueue("expired");
+    queue.enqueue("nacked");
+    queue.setReadOnly();
+
+    await queue.receive();
+    (await queue.receive()).nack(50);
+    assertEquals(deadLetters.tryDequeue(), { value: "nacked", ok: true });
+    assertEquals(queue.size, { visible: 0, inFlight: 1 });
+
+    await scheduler.advanceBy(100);
+    assertEquals(deadLetters.tryDequeue(), { value: "expired", ok: true });
+    assert(queue.isClosed);
+  });
+});
+
+Deno.test("AckQueue read-only closes once items are acknowledged", async () => {
+  const queue = ackQueue<number>();
+  queue.enqueue(1);
+  queue.enqueue(2);
+  queue.setReadOnly();
+
+  assertEquals(queue.state, "r");
+  assertThrows(() => queue.enqueue(3), QueueReadOnlyError);
+  assert(!queue.tryEnqueue(3));
+
+  const items: number[] = [];
+  for await (const lease of queue) {
+    items.push(lease.item);
+    lease.ack();
+  }
+
+  assertEquals(items, [1, 2]);
+  assert(queue.isClosed);
+});
+
+Deno.test("AckQueue invalid options", () => {
+  assertThrows(() => ackQueue({ visibilityTimeout: 0 }), TypeError);
+  assertThrows(() => ackQueue({ maxDeliveries: 0 }), TypeError);
+});
@@ -0,0 +1,217 @@
+import { QueueClosedError, QueueReadOnlyError } from "./errors.ts";
+import { delayQueue } from "./delayQueue.ts";
+import type {
+  AckQueue,
+  AckQueueOptions,
+  AckQueueSize,
+  DelayedItem,
+  Lease,
+} from "./types.ts";
+import type { ErrorLike, MaybeResult, TimeoutInput } from "../../types.ts";
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+
+type QueueState = "rw" | "r" | "-rw";
+
+type Envelope<T> = {
+  item: T;
+  deliveries: number;
+};
+
+/**
+ * ackQueue creates a new queue whose items are received as leases, in the manner of SQS. A
+ * received item stays in the queue, invisible, until it is acknowledged; if the lease is not
+ * settled within the visibility timeout the item becomes visible again and is redelivered.
+ * Items delivered `maxDeliveries` times are moved to the dead-letter queue.
+ *
+ * @example
+ * ```typescript
+ * const deadLetters = asyncQueue<Job>();
+ * const queue = ackQueue<Job>({
+ *   visibilityTimeout: 10_000,
+ *   maxDeliveries: 3,
+ *   deadLetterQueue: deadLetters,
+ * });
+ *
+ * queue.enqueue(job);
+ *
+ * for await (const lease of queue) {
+ *   try {
+ *     await process(lease.item);
+ *     lease.ack();
+ *   } catch {
+ *     lease.nack(1000); // retry in a second
+ *   }
+ * }
+ * ```
+ * @param options The options used to create the queue.
+ */
+export function ackQueue<T>(options?: AckQueueOptions<T>): AckQueue<T> {
+  const _visibilityTimeout = options?.visibilityTimeout ?? 30_000;
+  const _maxDeliveries = options?.maxDeliveries ?? Infinity;
+  const _deadLetterQueue = options?.deadLetterQueue;
+
+  if (!(_visibilityTimeout > 0)) {
+    throw new TypeError(`Invalid duration ${_visibilityTimeout}`);
+  }
+
+  if (!(_maxDeliveries >= 1)) {
+    throw new TypeError(`Invalid max deliveries ${_maxDeliveries}`);
+  }
+
+  // visible items are the ready items of the delay queue, in-flight items its pending ones, due
+  // when their visibility timeout expires
+  const _queue = delayQueue<Envelope<T>>({ bufferSize: options?.bufferSize });
+  // items on their last delivery are in flight in a queue of their own, as they are moved to the
+  // dead-letter queue rather than made visible again when their visibility timeout expires
+  const _lastDeliveries = delayQueue<Envelope<T>>();
+  let _readOnly = false;
+
+  _lastDeliveries.on("enqueue", () => {
+    const expired = _lastDeliveries.tryDequeue();
+    if (expired.ok) {
+      _deadLetter(expired.value);
+    }
+  });
+
+  function _closeIfDrained(): void {
+    if (_readOnly && _queue.isEmpty && _lastDeliveries.isEmpty) {
+      _queue.close();
+      _lastDeliveries.close();
+    }
+  }
+
+  function _deadLetter(envelope: Envelope<T>): void {
+    _deadLetterQueue?.tryEnqueue(envelope.item);
+    _closeIfDrained();
+  }
+
+  function _lease(envelope: Envelope<T>): Lease<T> {
+    envelope.deliveries++;
+    const inFlight = envelope.deliveries < _maxDeliveries
+      ? _queue
+      : _lastDeliveries;
+    const handle = inFlight.enqueue(envelope, { at: _visibilityTimeout });
+    // a nacked item stays pending until its delay elapses, so the lease tracks
+    // its own settlement rather than relying on the handle being pending
+    let settled = false;
+
+    return {
+      item: envelope.item,
+      deliveryCount: envelope.deliveries,
+      ack: () => {
+        if (settled || !inFlight.remove(handle)) {
+          return false;
+        }
+
+        settled = true;
+        _closeIfDrained();
+        return true;
+      },
+      nack: (delay?: TimeoutInput) => {
+        if (settled) {
+          return false;
+        }
+
+        if (inFlight === _lastDeliveries) {
+          settled = inFlight.remove(handle);
+          if (settled) {
+            _deadLetter(envelope);
+          }
+
+          return settled;
+        }
+
+        settled = inFlight.reschedule(handle, delay ?? 0);
+        return settled;
+      },
+      extend: (millis: number) => {
+        if (!(millis >= 0)) {
+          throw new TypeError(`Invalid duration ${millis}`);
+        }
+
+        return !settled &&
+          inFlight.reschedule(handle, handle.dueTime - Date.now() + millis);
+      },
+    };
+  }
+
+  const queue: AckQueue<T> = {
+    get isClosed(): boolean {
+      return _queue.isClosed;
+    },
+    get size(): AckQueueSize {
+      const { pending, ready } = _queue.size;
+      return {
+        visible: ready,
+        inFlight: pending + _lastDeliveries.size.pending,
+      };
+    },
+    get isEmpty(): boolean {
+      return _queue.isEmpty && _lastDeliveries.isEmpty;
+    },
+    get state(): QueueState {
+      if (_queue.isClosed) {
+        return "-rw";
+      }
+
+      return _readOnly ? "r" : "rw";
+    },
+    close(err?: ErrorLike): void {
+      _queue.close(err);
+      _lastDeliveries.close();
+    },
+    onClose(propagateInjectedError?: boolean): Promise<void> {
+      return _queue.onClose(propagateInjectedError);
+    },
+    setReadOnly(): void {
+      if (_queue.isClosed) {
+        throw new QueueClosedError();
+      }
+
+      _readOnly = true;
+      _closeIfDrained();
+    },
+    tryEnqueue(item: T): boolean {
+      if (_readOnly) {
+        return false;
+      }
+
+      return _queue.tryEnqueue({ item, deliveries: 0 }) !== undefined;
+    },
+    enqueue(item: T): void {
+      if (_readOnly && !_queue.isClosed) {
+        throw new QueueReadOnlyError();
+      }
+
+      _queue.enqueue({ item, deliveries: 0 });
+    },
+    async receive(cancellationToken?: CancellationToken): Promise<Lease<T>> {
+      return _lease(await _queue.dequeue(cancellationToken));
+    },
+    tryReceive(): MaybeResult<Lease<T>> {
+      const result = _queue.tryDequeue();
+      return result.ok
+        ? { value: _lease(result.value), ok: true }
+        : { ok: false };
+    },
+    [Symbol.dispose](): void {
+      queue.close();
+    },
+    [Symbol.asyncIterator](): AsyncIterator<Lease<T>> {
+      return {
+        next: async () => {
+          try {
+            return { value: await queue.receive(), done: false };
+          } catch (e) {
+            if ((e instanceof QueueClosedError)) {
+              return { done: true };
+            }
+            throw e;
+          }
+        },
+      } as AsyncIterator<Lease<T>>;
+    },
+  };
+
+  return queue;
+}
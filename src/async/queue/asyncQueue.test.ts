@@ -1,9 +1,10 @@
 import { QueueClosedError, QueueFullError, QueueReadOnlyError } from "./errors.ts";
-import { assert, assertThrows, assertRejects } from "@std/assert";
+import { assert, assertEquals, assertThrows, assertRejects } from "@std/assert";
 import { asyncQueue } from './asyncQueue.ts';
 import { waitGroup } from "../WaitGroup.ts";
 import { CancellationError } from "../../cancellation/index.ts";
 import { Cancellable } from "../../cancellation/Cancellable.ts";
+import { withVirtualTime } from "../../testing/VirtualScheduler.ts";
 
 Deno.test("AsyncQueue on dequeue test", async () => {
   let dequeued = 0;
@@ -348,4 +349,179 @@ Deno.test("AsyncQueue isFull test", async () => {
   queue.close();
 
   await queue.onClose();
-});
\ No newline at end of file
+});
+Deno.test("AsyncQueue priority dequeues highest first", async () => {
+  const queue = asyncQueue<number>({ priority: (n) => n });
+
+  queue.enqueue(1);
+  queue.enqueue(3);
+  queue.enqueue(2);
+  queue.setReadOnly();
+
+  const items: number[] = [];
+  for await (const item of queue) {
+    items.push(item);
+  }
+
+  assertEquals(items, [3, 2, 1]);
+  assert(queue.isClosed);
+});
+
+Deno.test("AsyncQueue priority keeps fifo order for equal priorities", () => {
+  const queue = asyncQueue<{ id: number; urgent: boolean }>({
+    priority: (job) => job.urgent ? 1 : 0,
+  });
+
+  queue.enqueue({ id: 1, urgent: false });
+  queue.enqueue({ id: 2, urgent: true });
+  queue.enqueue({ id: 3, urgent: false });
+  queue.enqueue({ id: 4, urgent: true });
+
+  const ids: number[] = [];
+  for (let result = queue.tryDequeue(); result.ok; result = queue.tryDequeue()) {
+    ids.push(result.value.id);
+  }
+
+  assertEquals(ids, [2, 4, 1, 3]);
+});
+
+Deno.test("AsyncQueue priority keep latest evicts lowest priority", async () => {
+  const queue = asyncQueue<number>({
+    bufferSize: 2,
+    bufferStrategy: "latest",
+    priority: (n) => n,
+  });
+
+  queue.enqueue(5);
+  queue.enqueue(1);
+  queue.enqueue(3);
+
+  assertEquals(queue.size, 2);
+  assert(await queue.dequeue() === 5);
+  assert(await queue.dequeue() === 3);
+});
+
+Deno.test("AsyncQueue priority hands items to waiting dequeuers", async () => {
+  const queue = asyncQueue<number>({ priority: (n) => n });
+  const dequeued = queue.dequeue();
+
+  queue.enqueue(1);
+  queue.enqueue(2);
+
+  assert(await dequeued === 1);
+  assert(await queue.dequeue() === 2);
+});
+
+Deno.test("AsyncQueue dequeueBatch resolves when max items are available", async () => {
+  const queue = asyncQueue<number>();
+  const batch = queue.dequeueBatch({ maxItems: 3, maxWait: 60_000 });
+
+  queue.enqueue(1);
+  queue.enqueue(2);
+  queue.enqueue(3);
+  queue.enqueue(4);
+
+  assertEquals(await batch, [1, 2, 3]);
+  assertEquals(queue.size, 1);
+
+  queue.close();
+});
+
+Deno.test("AsyncQueue dequeueBatch resolves when max wait elapses after first item", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = asyncQueue<number>();
+    let resolvedAt: number | undefined;
+    const batch = queue.dequeueBatch({ maxItems: 10, maxWait: 100 })
+      .then((items) => {
+        resolvedAt = Date.now();
+        return items;
+      });
+
+    await scheduler.advanceBy(500);
+    queue.enqueue(1);
+    await scheduler.advanceBy(50);
+    queue.enqueue(2);
+    await scheduler.advanceBy(50);
+    queue.enqueue(3);
+
+    assertEquals(await batch, [1, 2]);
+    assertEquals(resolvedAt, 600);
+    assertEquals(queue.tryDequeue(), { value: 3, ok: true });
+    assertEquals(scheduler.pendingTimers, 0);
+
+    queue.close();
+  });
+});
+
+Deno.test("AsyncQueue dequeueBatch without max wait returns available items", async () => {
+  const queue = asyncQueue<number>();
+  queue.enqueue(1);
+  queue.enqueue(2);
+
+  assertEquals(await queue.dequeueBatch({ maxItems: 5 }), [1, 2]);
+  await assertRejects(
+    () => queue.dequeueBatch({ maxItems: 0 }),
+    TypeError,
+    "maxItems",
+  );
+  await assertRejects(
+    () => queue.dequeueBatch({ maxItems: 1.5 }),
+    TypeError,
+    "maxItems",
+  );
+
+  queue.close();
+});
+
+Deno.test("AsyncQueue dequeueBatch keeps items when cancelled or closed", async () => {
+  const cancelledQueue = asyncQueue<number>();
+  const cancellation = Cancellable.create();
+  const cancelled = cancelledQueue.dequeueBatch({
+    maxItems: 5,
+    maxWait: 60_000,
+    cancellationToken: cancellation.token,
+  });
+  cancelledQueue.enqueue(1);
+  await Promise.resolve();
+  cancellation.cancel();
+  assertEquals(await cancelled, [1]);
+  cancelledQueue.close();
+
+  const closedQueue = asyncQueue<number>();
+  const closed = closedQueue.dequeueBatch({ maxItems: 5, maxWait: 60_000 });
+  closedQueue.enqueue(1);
+  closedQueue.enqueue(2);
+  closedQueue.setReadOnly();
+  assertEquals(await closed, [1, 2]);
+  await assertRejects(
+    () => closedQueue.dequeueBatch({ maxItems: 5 }),
+    QueueClosedError,
+  );
+});
+
+Deno.test("AsyncQueue dequeueBatch rethrows other errors while waiting", async () => {
+  const queue = asyncQueue<number>();
+  const error = new Error("dequeue failed");
+  const batch = queue.dequeueBatch({ maxItems: 5, maxWait: 60_000 });
+  queue.enqueue(1);
+  queue.dequeue = () => Promise.reject(error);
+
+  assertEquals(await assertRejects(() => batch), error);
+  queue.close();
+});
+
+Deno.test("AsyncQueue batches iterates until closed", async () => {
+  const queue = asyncQueue<number>();
+  for (let i = 1; i <= 5; i++) {
+    queue.enqueue(i);
+  }
+  queue.setReadOnly();
+
+  const batches: number[][] = [];
+  for await (const batch of queue.batches({ maxItems: 2 })) {
+    batches.push(batch);
+  }
+
+  assertEquals(batches, [[1, 2], [3, 4], [5]]);
+  assert(queue.isClosed);
+});
@@ -4,13 +4,16 @@ import {
   QueueReadOnlyError,
 } from "./errors.ts";
 import { Deferred } from "../Deferred.ts";
-import type { AsyncQueue, QueueOptions } from "./types.ts";
-import type { ErrorLike, MaybeResult } from "../../types.ts";
+import type { AsyncQueue, BatchOptions, QueueOptions } from "./types.ts";
+import { type ErrorLike, type MaybeResult, TimeoutInput } from "../../types.ts";
 import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
 import type { BufferLike } from "../../buffer/BufferLike.ts";
 import { Buffer } from "../../buffer/Buffer.ts";
+import { PriorityBuffer } from "../../buffer/PriorityBuffer.ts";
 import { createQueue } from "../../Queue.ts";
 import { Schedulers } from "../scheduler.ts";
+import { __linkedCancellation } from "../../cancellation/_utils.ts";
+import { CancellationError } from "../../cancellation/CancellationError.ts";
 
 type QueueState = "rw" | "r" | "-rw";
 
@@ -78,6 +81,20 @@ const STATE_CLOSED = 2;
  * });
  *
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Dequeuing by priority, with aging
+ * const queue = asyncQueue<{ urgent: boolean }>({
+ *   priority: (job) => job.urgent ? 10 : 0,
+ *   aging: { interval: 1000 }, // +1 priority for every second waited
+ * });
+ *
+ * queue.enqueue({ urgent: false });
+ * queue.enqueue({ urgent: true });
+ *
+ * console.log(queue.tryDequeue()); // prints { value: { urgent: true }, ok: true }
+ * ```
  * @param options: The buffer options used to create the queue.
  */
 export function asyncQueue<T>(
@@ -118,6 +135,12 @@ export function asyncQueue<T>(
     }
   }
 
+  function _dequeueAvailable(batch: T[], maxItems: number): void {
+    while (batch.length < maxItems && !_buffer.isEmpty) {
+      batch.push(_listeners.notifyDequeue(_buffer.read()!));
+    }
+  }
+
   const queue = {
     get isClosed(): boolean {
       return _state === STATE_CLOSED;
@@ -230,6 +253,69 @@ export function asyncQueue<T>(
         "Queue is read-only and has been exhausted of its items",
       );
     },
+    async dequeueBatch(options: BatchOptions): Promise<T[]> {
+      const { maxItems, maxWait, cancellationToken } = options;
+      if (!Number.isInteger(maxItems) || maxItems < 1) {
+        throw new TypeError(`Invalid maxItems ${maxItems}`);
+      }
+
+      const batch = [await queue.dequeue(cancellationToken)];
+      _dequeueAvailable(batch, maxItems);
+
+      const waitMillis = maxWait === undefined
+        ? 0
+        : TimeoutInput.deriveTimeout(maxWait);
+      if (batch.length >= maxItems || !(waitMillis > 0)) {
+        return batch;
+      }
+
+      const cancellation = __linkedCancellation(cancellationToken);
+      const timer = setTimeout(cancellation.cancel, waitMillis);
+      try {
+        while (batch.length < maxItems) {
+          batch.push(await queue.dequeue(cancellation.token));
+          _dequeueAvailable(batch, maxItems);
+        }
+      } catch (e) {
+        // the wait elapsed, or the token was cancelled or the queue closed, in which case the
+        // items dequeued so far are still returned
+        const waitEnded = e instanceof CancellationError &&
+          cancellation.token.isCancelled;
+        if (!waitEnded && !(e instanceof QueueClosedError)) {
+          throw e;
+        }
+      } finally {
+        clearTimeout(timer);
+        cancellation.cancel();
+      }
+
+      return batch;
+    },
+    async *batches(options: BatchOptions): AsyncIterable<T[]> {
+      // the linked token is cancelled once the consumer stops, so that it does not stay
+      // registered with the caller's token
+      const cancellation = __linkedCancellation(options.cancellationToken);
+      try {
+        while (true) {
+          let batch: T[];
+          try {
+            batch = await queue.dequeueBatch({
+              ...options,
+              cancellationToken: cancellation.token,
+            });
+          } catch (e) {
+            if (e instanceof QueueClosedError) {
+              return;
+            }
+            throw e;
+          }
+
+          yield batch;
+        }
+      } finally {
+        cancellation.cancel();
+      }
+    },
     tryDequeue(): MaybeResult<T> {
       if (!queue.isEmpty) {
         return {
@@ -253,7 +339,7 @@ export function asyncQueue<T>(
           try {
             return { value: await queue.dequeue(), done: false };
           } catch (e) {
-            if ((e instanceof QueueClosedError)) {
+            if (e instanceof QueueClosedError) {
               return { done: true };
             }
             throw e;
@@ -283,6 +369,19 @@ function _getBufferFromOptions<T>(
 ): BufferLike<T> {
   const hasFiniteBufferSize = options?.bufferSize !== Infinity;
 
+  if (options?.priority) {
+    if (!hasFiniteBufferSize && options.bufferStrategy) {
+      throw new Error("Buffer strategy is not supported for infinite buffer");
+    }
+
+    return new PriorityBuffer<T>(
+      options.priority,
+      options.bufferSize ?? Infinity,
+      options.bufferStrategy ?? "fixed",
+      options.aging,
+    );
+  }
+
   if (hasFiniteBufferSize) {
     return new Buffer<T>(
       options.bufferSize,
@@ -0,0 +1,141 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { delayQueue } from "./delayQueue.ts";
+import { QueueFullError, QueueReadOnlyError } from "./errors.ts";
+import { withVirtualTime } from "../../testing/VirtualScheduler.ts";
+
+Deno.test("DelayQueue hides items until due", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = delayQueue<string>();
+    queue.enqueue("b", { at: 200 });
+    queue.enqueue("a", { at: 100 });
+    queue.enqueue("now");
+
+    assertEquals(queue.size, { pending: 2, ready: 1 });
+    assertEquals(queue.tryDequeue(), { value: "now", ok: true });
+    assertEquals(queue.tryDequeue(), { ok: false });
+
+    await scheduler.advanceBy(99);
+    assertEquals(queue.tryDequeue(), { ok: false });
+
+    await scheduler.advanceBy(1);
+    assertEquals(queue.size, { pending: 1, ready: 1 });
+    assertEquals(queue.tryDequeue(), { value: "a", ok: true });
+
+    queue.close();
+  });
+});
+
+Deno.test("DelayQueue wakes dequeuer when earliest item is due", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = delayQueue<string>();
+    queue.enqueue("late", { at: 500 });
+    queue.enqueue("early", { at: new Date(Date.now() + 300) });
+
+    let woken: number | undefined;
+    const dequeued = queue.dequeue().then((item) => {
+      woken = Date.now();
+      return item;
+    });
+
+    await scheduler.run();
+    assertEquals(await dequeued, "early");
+    assertEquals(woken, 300);
+    assertEquals(scheduler.pendingTimers, 0);
+    assertEquals(queue.size, { pending: 0, ready: 1 });
+
+    queue.close();
+  });
+});
+
+Deno.test("DelayQueue keeps fifo order for equal due times", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = delayQueue<number>();
+    for (let i = 0; i < 5; i++) {
+      queue.enqueue(i, { at: 100 });
+    }
+
+    await scheduler.advanceBy(100);
+    queue.setReadOnly();
+
+    const items: number[] = [];
+    for await (const item of queue) {
+      items.push(item);
+    }
+
+    assertEquals(items, [0, 1, 2, 3, 4]);
+  });
+});
+
+Deno.test("DelayQueue reschedule and remove by handle", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = delayQueue<string>();
+    const a = queue.enqueue("a", { at: 100 });
+    const b = queue.enqueue("b", { at: 200 });
+    const c = queue.enqueue("c", { at: 300 });
+
+    assert(queue.reschedule(c, 50));
+    assert(queue.remove(a));
+    assert(!queue.remove(a));
+    assertEquals(queue.size, { pending: 2, ready: 0 });
+
+    await scheduler.advanceBy(50);
+    assertEquals(queue.tryDequeue(), { value: "c", ok: true });
+    assert(!queue.reschedule(c, 10));
+
+    assert(queue.reschedule(b, 0));
+    assertEquals(queue.tryDequeue(), { value: "b", ok: true });
+    assertEquals(queue.size, { pending: 0, ready: 0 });
+    assertEquals(scheduler.pendingTimers, 0);
+
+    queue.close();
+  });
+});
+
+Deno.test("DelayQueue read-only closes once pending items are drained", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = delayQueue<number>();
+    queue.enqueue(2, { at: 200 });
+    queue.enqueue(1, { at: 100 });
+    queue.setReadOnly();
+
+    assertEquals(queue.state, "r");
+    assertThrows(() => queue.enqueue(3), QueueReadOnlyError);
+    assertEquals(queue.tryEnqueue(3), undefined);
+
+    const items: number[] = [];
+    const consumer = (async () => {
+      for await (const item of queue) {
+        items.push(item);
+      }
+    })();
+
+    await scheduler.run();
+    await consumer;
+
+    assertEquals(items, [1, 2]);
+    assert(queue.isClosed);
+  });
+});
+
+Deno.test("DelayQueue buffer size counts pending items", () => {
+  const queue = delayQueue<number>({ bufferSize: 2 });
+  queue.enqueue(1, { at: 1000 });
+  queue.enqueue(2);
+
+  assert(queue.isFull);
+  assertThrows(() => queue.enqueue(3), QueueFullError);
+  assertEquals(queue.tryEnqueue(3), undefined);
+
+  queue.close();
+  assertEquals(queue.size, { pending: 0, ready: 0 });
+});
+
+Deno.test("DelayQueue close rejects waiting dequeuers", async () => {
+  const queue = delayQueue<number>();
+  queue.enqueue(1, { at: 60_000 });
+  const dequeued = queue.dequeue();
+
+  queue.close();
+  await assertRejects(() => dequeued);
+  assertEquals(queue.state, "-rw");
+});
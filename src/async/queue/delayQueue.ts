@@ -0,0 +1,265 @@
+import {
+  QueueClosedError,
+  QueueFullError,
+  QueueReadOnlyError,
+} from "./errors.ts";
+import { asyncQueue } from "./asyncQueue.ts";
+import type {
+  BatchOptions,
+  DelayedItem,
+  DelayOptions,
+  DelayQueue,
+  DelayQueueOptions,
+  DelayQueueSize,
+} from "./types.ts";
+import { type ErrorLike, type MaybeResult, TimeoutInput } from "../../types.ts";
+import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
+
+type QueueState = "rw" | "r" | "-rw";
+
+type Entry<T> = {
+  item: T;
+  dueTime: number;
+};
+
+// the longest delay timers support, longer delays are waited in steps
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * delayQueue creates a new async queue whose items only become dequeueable once they are due.
+ * A single timer is armed for the earliest pending item, which is handed to a waiting dequeuer
+ * (or made available to `tryDequeue`) when it falls due.
+ *
+ * @example
+ * ```typescript
+ * const queue = delayQueue<string>();
+ *
+ * const retry = queue.enqueue("retry", { at: 1000 });
+ * queue.enqueue("notify", { at: 500 });
+ *
+ * console.log(queue.size); // prints { pending: 2, ready: 0 }
+ * queue.reschedule(retry, 100);
+ *
+ * console.log(await queue.dequeue()); // prints "retry" after 100ms
+ * console.log(await queue.dequeue()); // prints "notify" after 500ms
+ * ```
+ * @param options The options used to create the queue.
+ */
+export function delayQueue<T>(options?: DelayQueueOptions): DelayQueue<T> {
+  const _bufferSize = options?.bufferSize ?? Infinity;
+  if (!(_bufferSize >= 1)) {
+    throw new TypeError(`Invalid buffer size ${_bufferSize}`);
+  }
+
+  const _ready = asyncQueue<T>();
+  const _pending = new Array<Entry<T>>();
+  let _readOnly = false;
+  let _timer: number | undefined;
+  let _timerDueTime = Infinity;
+
+  function _throwIfReadOnly(): void {
+    if (_ready.isClosed) {
+      throw new QueueClosedError();
+    }
+
+    if (_readOnly) {
+      throw new QueueReadOnlyError();
+    }
+  }
+
+  function _insert(entry: Entry<T>): void {
+    if (entry.dueTime <= Date.now()) {
+      _ready.enqueue(entry.item);
+      return;
+    }
+
+    // binary search for the first entry due after, keeping fifo order among equal due times
+    let low = 0;
+    let high = _pending.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (_pending[mid].dueTime <= entry.dueTime) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    _pending.splice(low, 0, entry);
+  }
+
+  function _schedule(): void {
+    const next = _pending[0];
+    if (next?.dueTime === _timerDueTime) {
+      return;
+    }
+
+    if (_timer !== undefined) {
+      clearTimeout(_timer);
+      _timer = undefined;
+      _timerDueTime = Infinity;
+    }
+
+    if (next) {
+      _timerDueTime = next.dueTime;
+      _timer = setTimeout(
+        _promoteDue,
+        Math.min(MAX_TIMER_DELAY, Math.max(0, next.dueTime - Date.now())),
+      );
+    }
+  }
+
+  function _promoteDue(): void {
+    _timer = undefined;
+    _timerDueTime = Infinity;
+
+    const now = Date.now();
+    while (_pending.length > 0 && _pending[0].dueTime <= now) {
+      _ready.enqueue(_pending.shift()!.item);
+    }
+
+    _setReadOnlyIfSettled();
+    _schedule();
+  }
+
+  function _setReadOnlyIfSettled(): void {
+    // the ready queue stays writable while items are pending, so that they can still be promoted
+    if (_readOnly && _pending.length === 0 && _ready.state === "rw") {
+      _ready.setReadOnly();
+    }
+  }
+
+  function _enqueueUnsafe(item: T, options?: DelayOptions): DelayedItem<T> {
+    if (_pending.length + _ready.size >= _bufferSize) {
+      throw new QueueFullError();
+    }
+
+    const now = Date.now();
+    const entry: Entry<T> = {
+      item,
+      dueTime: options?.at === undefined
+        ? now
+        : now + TimeoutInput.deriveTimeout(options.at),
+    };
+
+    _insert(entry);
+    _schedule();
+    return entry;
+  }
+
+  const queue: DelayQueue<T> = {
+    get isClosed(): boolean {
+      return _ready.isClosed;
+    },
+    get size(): DelayQueueSize {
+      return { pending: _pending.length, ready: _ready.size };
+    },
+    get isEmpty(): boolean {
+      return _pending.length === 0 && _ready.isEmpty;
+    },
+    get isFull(): boolean {
+      return _pending.length + _ready.size >= _bufferSize;
+    },
+    get state(): QueueState {
+      if (_ready.isClosed) {
+        return "-rw";
+      }
+
+      return _readOnly ? "r" : "rw";
+    },
+    close(err?: ErrorLike): void {
+      if (_timer !== undefined) {
+        clearTimeout(_timer);
+        _timer = undefined;
+        _timerDueTime = Infinity;
+      }
+
+      _pending.length = 0;
+      _ready.close(err);
+    },
+    onClose(propagateInjectedError?: boolean): Promise<void> {
+      return _ready.onClose(propagateInjectedError);
+    },
+    setReadOnly(): void {
+      if (_ready.isClosed) {
+        throw new QueueClosedError();
+      }
+
+      _readOnly = true;
+      _setReadOnlyIfSettled();
+    },
+    tryEnqueue(item: T, options?: DelayOptions): DelayedItem<T> | undefined {
+      if (_readOnly || _ready.isClosed) {
+        return undefined;
+      }
+
+      try {
+        return _enqueueUnsafe(item, options);
+      } catch (e) {
+        if (e instanceof QueueFullError) {
+          return undefined;
+        }
+        throw e;
+      }
+    },
+    enqueue(item: T, options?: DelayOptions): DelayedItem<T> {
+      _throwIfReadOnly();
+      return _enqueueUnsafe(item, options);
+    },
+    reschedule(handle: DelayedItem<T>, at: TimeoutInput): boolean {
+      const index = _pending.indexOf(handle as Entry<T>);
+      if (index === -1) {
+        return false;
+      }
+
+      const [entry] = _pending.splice(index, 1);
+      entry.dueTime = Date.now() + TimeoutInput.deriveTimeout(at);
+
+      _insert(entry);
+      _setReadOnlyIfSettled();
+      _schedule();
+      return true;
+    },
+    remove(handle: DelayedItem<T>): boolean {
+      const index = _pending.indexOf(handle as Entry<T>);
+      if (index === -1) {
+        return false;
+      }
+
+      _pending.splice(index, 1);
+      _setReadOnlyIfSettled();
+      _schedule();
+      return true;
+    },
+    dequeue(cancellationToken?: CancellationToken): Promise<T> {
+      return _ready.dequeue(cancellationToken);
+    },
+    dequeueBatch(options: BatchOptions): Promise<T[]> {
+      return _ready.dequeueBatch(options);
+    },
+    batches(options: BatchOptions): AsyncIterable<T[]> {
+      return _ready.batches(options);
+    },
+    tryDequeue(): MaybeResult<T> {
+      return _ready.tryDequeue();
+    },
+    [Symbol.dispose](): void {
+      queue.close();
+    },
+    [Symbol.asyncIterator](): AsyncIterator<T> {
+      return _ready[Symbol.asyncIterator]();
+    },
+    on(
+      event: "dequeue" | "enqueue",
+      listener: (item: T) => void,
+      once?: boolean,
+    ): void {
+      _ready.on(event, listener, once);
+    },
+    off(event: "dequeue" | "enqueue", listener: (item: T) => void): void {
+      _ready.off(event, listener);
+    },
+  };
+
+  return queue;
+}
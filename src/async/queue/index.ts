@@ -1,3 +1,6 @@
+export * from "./ackQueue.ts";
 export * from "./asyncQueue.ts";
+export * from "./delayQueue.ts";
 export * from "./errors.ts";
+export * from "./select.ts";
 export * from "./types.ts";
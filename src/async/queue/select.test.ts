@@ -0,0 +1,208 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { select } from "./select.ts";
+import { asyncQueue } from "./asyncQueue.ts";
+import { delayQueue } from "./delayQueue.ts";
+import { QueueClosedError } from "./errors.ts";
+import { Cancellable } from "../../cancellation/Cancellable.ts";
+import { withVirtualTime } from "../../testing/VirtualScheduler.ts";
+
+Deno.test("select takes from the ready queue only", async () => {
+  const a = asyncQueue<number>();
+  const b = asyncQueue<string>();
+  b.enqueue("b");
+
+  const result = await select<string>([
+    { queue: a, onItem: (n: number) => `a${n}` },
+    { queue: b, onItem: (s: string) => `b:${s}` },
+  ]);
+
+  assertEquals(result, "b:b");
+  assert(b.isEmpty);
+
+  a.close();
+  b.close();
+});
+
+Deno.test("select waits for the first queue to receive an item", async () => {
+  const a = asyncQueue<number>();
+  const b = asyncQueue<number>();
+
+  const selected = select<string>([
+    { queue: a, onItem: (n: number) => `a${n}` },
+    { queue: b, onItem: (n: number) => `b${n}` },
+  ]);
+
+  queueMicrotask(() => b.enqueue(1));
+  assertEquals(await selected, "b1");
+
+  // the queue that was not chosen has no dequeuer left to lose an item to
+  a.enqueue(2);
+  assertEquals(a.tryDequeue(), { value: 2, ok: true });
+
+  a.close();
+  b.close();
+});
+
+Deno.test("select default case polls without blocking", async () => {
+  const queue = asyncQueue<number>();
+
+  assertEquals(
+    await select<string>([
+      { queue, onItem: () => "item" },
+      { default: () => "none" },
+    ]),
+    "none",
+  );
+
+  queue.enqueue(1);
+  assertEquals(
+    await select<string>([
+      { queue, onItem: () => "item" },
+      { default: () => "none" },
+    ]),
+    "item",
+  );
+
+  queue.close();
+});
+
+Deno.test("select chooses randomly among ready queues", async () => {
+  const a = asyncQueue<string>();
+  const b = asyncQueue<string>();
+  const counts = { a: 0, b: 0 };
+
+  for (let i = 0; i < 200; i++) {
+    a.enqueue("a");
+    b.enqueue("b");
+    const chosen = await select<"a" | "b">([
+      { queue: a, onItem: (s: "a") => s },
+      { queue: b, onItem: (s: "b") => s },
+    ]);
+    counts[chosen!]++;
+  }
+
+  assert(counts.a > 50 && counts.b > 50);
+  assertEquals(a.size + b.size, 200);
+
+  a.close();
+  b.close();
+});
+
+Deno.test("select timeout case", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const queue = asyncQueue<number>();
+    let selectedAt: number | undefined;
+    const selected = select<string>([
+      { queue, onItem: () => "item" },
+      { timeout: 100, onTimeout: () => "timeout" },
+    ]).then((result) => {
+      selectedAt = Date.now();
+      return result;
+    });
+
+    await scheduler.run();
+    assertEquals(await selected, "timeout");
+    assertEquals(selectedAt, 100);
+
+    queue.enqueue(1);
+    assertEquals(queue.size, 1);
+    queue.close();
+  });
+});
+
+Deno.test("select cancellation case", async () => {
+  const queue = asyncQueue<number>();
+  const cancellation = Cancellable.create();
+  const selected = select<string>([
+    { queue, onItem: () => "item" },
+    { token: cancellation.token, onCancel: () => "cancelled" },
+  ]);
+
+  cancellation.cancel();
+  assertEquals(await selected, "cancelled");
+
+  const rejected = select([{ queue, onItem: () => "item" }, {
+    token: cancellation.token,
+  }]);
+  await assertRejects(() => rejected);
+
+  queue.close();
+});
+
+Deno.test("select wakes when a delayed item falls due", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const delayed = delayQueue<string>();
+    delayed.enqueue("later", { at: 50 });
+
+    const selected = select<string>([
+      { queue: delayed, onItem: (s: string) => s },
+      { timeout: 100, onTimeout: () => "timeout" },
+    ]);
+
+    await scheduler.run();
+    assertEquals(await selected, "later");
+    delayed.close();
+  });
+});
+
+Deno.test("select does not accumulate listeners on the queues", async () => {
+  const queue = asyncQueue<number>();
+  const other = asyncQueue<number>();
+  let onCloseCalls = 0;
+  let listeners = 0;
+  const watched = {
+    get isClosed() {
+      return queue.isClosed;
+    },
+    tryDequeue: () => queue.tryDequeue(),
+    on: (event: "dequeue" | "enqueue", listener: (item: number) => void) => {
+      listeners++;
+      queue.on(event, listener, true);
+    },
+    off: (event: "dequeue" | "enqueue", listener: (item: number) => void) => {
+      listeners--;
+      queue.off(event, listener);
+    },
+    onClose: () => {
+      onCloseCalls++;
+      return queue.onClose();
+    },
+  };
+
+  for (let i = 0; i < 10; i++) {
+    const selected = select<string>([
+      { queue: watched, onItem: () => "watched" },
+      { queue: other, onItem: () => "other" },
+    ]);
+
+    queueMicrotask(() => other.enqueue(i));
+    assertEquals(await selected, "other");
+  }
+
+  assertEquals(listeners, 0);
+  assertEquals(onCloseCalls, 1);
+
+  const closed = select([{ queue: watched, onItem: () => "watched" }]);
+  queue.close();
+  await assertRejects(() => closed, QueueClosedError);
+  other.close();
+});
+
+Deno.test("select rejects when all queues are closed", async () => {
+  const a = asyncQueue<number>();
+  const b = asyncQueue<number>();
+  b.close();
+
+  const selected = select([
+    { queue: a, onItem: () => "a" },
+    { queue: b, onItem: () => "b" },
+  ]);
+
+  a.close();
+  await assertRejects(() => selected, QueueClosedError);
+  await assertRejects(() => select([]), TypeError);
+  await assertRejects(
+    () => select([{ default: () => 1 }, { default: () => 2 }]),
+    TypeError,
+  );
+});
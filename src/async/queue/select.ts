@@ -0,0 +1,212 @@
+import { QueueClosedError } from "./errors.ts";
+import type {
+  SelectableQueue,
+  SelectCancellationCase,
+  SelectCase,
+  SelectDefaultCase,
+  SelectQueueCase,
+  SelectTimeoutCase,
+} from "./types.ts";
+import { TimeoutInput } from "../../types.ts";
+
+// the close listeners of the queues being selected from, so that each queue is only watched once
+// however many selects wait on it, the listeners being removed when their select wakes
+const _closeListeners = new WeakMap<
+  SelectableQueue<unknown>,
+  Set<() => void>
+>();
+
+/**
+ * select waits on several queues, timeouts and cancellation tokens at once, in the manner of
+ * Go's `select` statement, and runs the handler of exactly one ready case. Items are only ever
+ * taken synchronously from the chosen queue, so the queues that are not chosen lose nothing.
+ * When several cases are ready, one of them is chosen at random, so that a busy queue does not
+ * starve the others. A `default` case makes the select non-blocking, being chosen when no other
+ * case is ready.
+ *
+ * Closed queues are never ready; the select rejects with a `QueueClosedError` when all its cases
+ * are queues and they are all closed.
+ *
+ * @example
+ * ```typescript
+ * const orders = asyncQueue<Order>();
+ * const refunds = asyncQueue<Refund>();
+ *
+ * const handled = await select<string>([
+ *   { queue: orders, onItem: (order) => handleOrder(order) },
+ *   { queue: refunds, onItem: (refund) => handleRefund(refund) },
+ *   { timeout: 5000, onTimeout: () => "idle" },
+ *   { token: shutdown.token, onCancel: () => "shutdown" },
+ * ]);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // polling without blocking
+ * const item = await select<Order | undefined>([
+ *   { queue: orders, onItem: (order) => order },
+ *   { default: () => undefined },
+ * ]);
+ * ```
+ * @param cases The cases to choose from.
+ * @returns The result of the handler of the chosen case, undefined when it has no handler.
+ * @throws {TypeError} If there is no case, or more than one default case.
+ */
+export async function select<R>(
+  cases: ReadonlyArray<SelectCase<R>>,
+): Promise<R | undefined> {
+  const defaults = cases.filter(_isDefaultCase);
+  const waitables = cases.filter((c) => !_isDefaultCase(c));
+  if (cases.length === 0) {
+    throw new TypeError("No case to select from");
+  }
+
+  if (defaults.length > 1) {
+    throw new TypeError("Only one default case can be selected from");
+  }
+
+  const start = Date.now();
+  const dueTimes = waitables.map((c) =>
+    _isTimeoutCase(c) ? start + TimeoutInput.deriveTimeout(c.timeout) : Infinity
+  );
+
+  while (true) {
+    const chosen = _chooseReady(waitables, dueTimes);
+    if (chosen) {
+      return await chosen();
+    }
+
+    if (defaults.length > 0) {
+      return await defaults[0].default();
+    }
+
+    if (waitables.every((c) => _isQueueCase(c) && c.queue.isClosed)) {
+      throw new QueueClosedError("All the queues selected from are closed");
+    }
+
+    await _waitForChange(waitables, dueTimes);
+  }
+}
+
+function _chooseReady<R>(
+  cases: SelectCase<R>[],
+  dueTimes: number[],
+): (() => R | Promise<R> | undefined) | undefined {
+  // trying the cases in a random order chooses uniformly among the ready ones
+  const order = cases.map((_, index) => index);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  for (const index of order) {
+    const c = cases[index];
+    if (_isQueueCase(c)) {
+      if (c.queue.isClosed) {
+        continue;
+      }
+
+      const result = c.queue.tryDequeue();
+      if (result.ok) {
+        return () => c.onItem(result.value);
+      }
+    } else if (_isTimeoutCase(c)) {
+      if (Date.now() >= dueTimes[index]) {
+        return () => c.onTimeout?.();
+      }
+    } else if (_isCancellationCase(c) && c.token.isCancelled) {
+      return () => {
+        if (!c.onCancel) {
+          throw c.token.reason;
+        }
+
+        return c.onCancel(c.token.reason);
+      };
+    }
+  }
+
+  return undefined;
+}
+
+function _waitForChange<R>(
+  cases: SelectCase<R>[],
+  dueTimes: number[],
+): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const cleanups = new Array<() => void>();
+    let done = false;
+    const wake = () => {
+      if (!done) {
+        done = true;
+        cleanups.forEach((cleanup) => cleanup());
+        resolve();
+      }
+    };
+
+    const nextDueTime = Math.min(...dueTimes);
+    if (nextDueTime !== Infinity) {
+      const id = setTimeout(wake, Math.max(0, nextDueTime - Date.now()));
+      cleanups.push(() => clearTimeout(id));
+    }
+
+    for (const c of cases) {
+      if (_isQueueCase(c)) {
+        const queue = c.queue;
+        if (queue.isClosed) {
+          continue;
+        }
+
+        queue.on("enqueue", wake, true);
+        cleanups.push(() => {
+          if (!queue.isClosed) {
+            queue.off("enqueue", wake);
+          }
+        });
+        cleanups.push(_onQueueClose(queue, wake));
+      } else if (_isCancellationCase(c)) {
+        cleanups.push(c.token.register(wake));
+      }
+    }
+  });
+}
+
+function _onQueueClose(
+  queue: SelectableQueue<unknown>,
+  listener: () => void,
+): () => void {
+  const listeners = _closeListeners.get(queue) ?? _watchClose(queue);
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function _watchClose(queue: SelectableQueue<unknown>): Set<() => void> {
+  const listeners = new Set<() => void>();
+  const notify = () => {
+    _closeListeners.delete(queue);
+    listeners.forEach((listener) => listener());
+  };
+
+  _closeListeners.set(queue, listeners);
+  queue.onClose().then(notify, notify);
+  return listeners;
+}
+
+function _isQueueCase<R>(
+  c: SelectCase<R>,
+): c is SelectQueueCase<unknown, R> {
+  return "queue" in c;
+}
+
+function _isTimeoutCase<R>(c: SelectCase<R>): c is SelectTimeoutCase<R> {
+  return "timeout" in c;
+}
+
+function _isCancellationCase<R>(
+  c: SelectCase<R>,
+): c is SelectCancellationCase<R> {
+  return "token" in c;
+}
+
+function _isDefaultCase<R>(c: SelectCase<R>): c is SelectDefaultCase<R> {
+  return "default" in c;
+}
@@ -1,6 +1,9 @@
 import type { BufferStrategyOptions } from "../../buffer/BufferLike.ts";
-import type { ErrorLike, MaybeResult } from "../../types.ts";
+import type { PriorityAging } from "../../buffer/PriorityBuffer.ts";
+import type { ErrorLike, MaybeResult, TimeoutInput } from "../../types.ts";
+import { ackQueue } from "./ackQueue.ts";
 import { asyncQueue } from "./asyncQueue.ts";
+import { delayQueue } from "./delayQueue.ts";
 import type { CancellationToken } from "../../cancellation/CancellationToken.ts";
 
 /**
@@ -13,10 +16,40 @@ export type QueueOptions<T> = {
   /**
    * The buffer strategy to apply when the buffer is full.
    * "drop": Drops the item being enqueued.
-   * "latest": Drops the oldest and enqueues the new item.
+   * "latest": Drops the oldest item and enqueues the new item. With a priority, drops the lowest
+   * priority item, which is the new item itself when it ranks lowest.
    * "fixed": Throws an error when the buffer is full.
    */
   bufferStrategy?: BufferStrategyOptions<T> | undefined;
+
+  /**
+   * Orders the items by the priority returned, the highest being dequeued first. Items of
+   * equal priority are dequeued in the order they were enqueued.
+   */
+  priority?: ((item: T) => number) | undefined;
+
+  /**
+   * Raises the priority of waiting items over time so that low priority items are not starved.
+   * Only applies when a priority is set.
+   */
+  aging?: PriorityAging | undefined;
+};
+
+/**
+ *  The options to use when dequeuing a batch of items
+ */
+export type BatchOptions = {
+  /** The maximum number of items in a batch, the batch resolving as soon as it is reached. */
+  maxItems: number;
+
+  /**
+   * How long to wait for more items once the first item of the batch has arrived. When omitted,
+   * the batch resolves with the items available when the first one arrives.
+   */
+  maxWait?: TimeoutInput | undefined;
+
+  /** A token cancelling the wait for the first item. */
+  cancellationToken?: CancellationToken | undefined;
 };
 
 /** An async queue that allows for enqueuing and dequeuing items concurrently */
@@ -66,6 +99,22 @@ export interface AsyncQueue<T> extends Disposable, AsyncIterable<T> {
    */
   dequeue(cancellationToken?: CancellationToken): Promise<T>;
 
+  /**
+   * Asynchronously dequeues a batch of items from the queue. It waits for the first item, then
+   * resolves as soon as `maxItems` items have been dequeued or `maxWait` has elapsed. Once the
+   * first item is dequeued, cancellation and closing of the queue resolve the batch with the
+   * items accumulated so far rather than losing them.
+   * @param options The size of the batch and how long to wait for it to fill.
+   */
+  dequeueBatch(options: BatchOptions): Promise<T[]>;
+
+  /**
+   * Returns an async iterable of the batches dequeued with the given options, which completes
+   * when the queue is closed.
+   * @param options The size of the batches and how long to wait for them to fill.
+   */
+  batches(options: BatchOptions): AsyncIterable<T[]>;
+
   /**
    * Event handler for when an item is enqueued/dequeued from the queue.
    * @param event The event to listen for.
@@ -115,3 +164,286 @@ export const AsyncQueue = function <T>(
 } as unknown as {
   new <T>(options?: QueueOptions<T>): AsyncQueue<T>;
 };
+
+/**
+ *  The options to use when creating a new delay queue
+ */
+export type DelayQueueOptions = {
+  /** The maximum number of pending and ready items, beyond which enqueuing fails. */
+  bufferSize?: number | undefined;
+};
+
+/**
+ * The options to use when enqueuing an item into a delay queue
+ */
+export type DelayOptions = {
+  /** When the item becomes dequeueable, immediately when omitted. */
+  at?: TimeoutInput | undefined;
+};
+
+/** The handle of an item enqueued into a delay queue, used to reschedule or remove it. */
+export type DelayedItem<T> = {
+  /** The item enqueued. */
+  readonly item: T;
+
+  /** The time, in milliseconds since the epoch, the item becomes dequeueable at. */
+  readonly dueTime: number;
+};
+
+/** The number of items in a delay queue, by whether they are due. */
+export type DelayQueueSize = {
+  /** The number of items that are not due yet. */
+  pending: number;
+
+  /** The number of items that are due and can be dequeued. */
+  ready: number;
+};
+
+/**
+ * An async queue whose items only become dequeueable once they are due. Dequeuers waiting on
+ * an empty queue are woken when the earliest item falls due.
+ */
+export interface DelayQueue<T>
+  extends Omit<AsyncQueue<T>, "size" | "enqueue" | "tryEnqueue"> {
+  /** The current number of pending and ready items in the queue */
+  get size(): DelayQueueSize;
+
+  /**
+   * Enqueues an item of type T to the queue, to become dequeueable at the given time. The
+   * "enqueue" event is raised once the item is due.
+   *
+   * Errors will be thrown in one of the three following conditions:
+   * 1. The queue is read-only
+   * 2. The queue is closed.
+   * 3. The max buffer size has been reached.
+   * @param item The item to add to the queue.
+   * @param options When the item becomes dequeueable.
+   * @returns The handle of the item.
+   */
+  enqueue(item: T, options?: DelayOptions): DelayedItem<T>;
+
+  /**
+   * Attempts to enqueue an item of type T to the queue. Returns the handle of the item if it
+   * was successfully enqueued, otherwise undefined.
+   *
+   * @param item The item to add to the queue.
+   * @param options When the item becomes dequeueable.
+   */
+  tryEnqueue(item: T, options?: DelayOptions): DelayedItem<T> | undefined;
+
+  /**
+   * Changes when a pending item becomes dequeueable.
+   * @param handle The handle returned when the item was enqueued.
+   * @param at The new due time.
+   * @returns False if the item is no longer pending, i.e. it is due or was removed.
+   */
+  reschedule(handle: DelayedItem<T>, at: TimeoutInput): boolean;
+
+  /**
+   * Removes a pending item from the queue.
+   * @param handle The handle returned when the item was enqueued.
+   * @returns False if the item is no longer pending, i.e. it is due or was removed.
+   */
+  remove(handle: DelayedItem<T>): boolean;
+}
+
+/**
+ * Creates a new delay queue with the specified options.
+ * @param options The options to use when creating the queue.
+ * @returns A new delay queue.
+ */
+export const DelayQueue = function <T>(
+  options?: DelayQueueOptions,
+): DelayQueue<T> {
+  return delayQueue(options);
+} as unknown as {
+  new <T>(options?: DelayQueueOptions): DelayQueue<T>;
+};
+
+/**
+ *  The options to use when creating a new acknowledging queue
+ */
+export type AckQueueOptions<T> = {
+  /** The maximum number of visible and in-flight items, beyond which enqueuing fails. */
+  bufferSize?: number | undefined;
+
+  /**
+   * The number of milliseconds a received item stays invisible to other receivers before it is
+   * delivered again, unless acknowledged. 30 seconds by default.
+   */
+  visibilityTimeout?: number | undefined;
+
+  /**
+   * The number of times an item is delivered before it is moved to the dead-letter queue
+   * instead of being delivered again, as soon as its last lease expires or is nacked. Unlimited
+   * by default.
+   */
+  maxDeliveries?: number | undefined;
+
+  /**
+   * The queue receiving the items delivered `maxDeliveries` times without being acknowledged.
+   * When omitted, or when it refuses the item, the item is dropped.
+   */
+  deadLetterQueue?: AsyncQueue<T> | undefined;
+};
+
+/** A received item, which is delivered again unless acknowledged before its visibility timeout. */
+export type Lease<T> = {
+  /** The item received. */
+  readonly item: T;
+
+  /** The number of times the item has been delivered, including this delivery. */
+  readonly deliveryCount: number;
+
+  /**
+   * Acknowledges the item, removing it from the queue for good.
+   * @returns False if the lease has expired, or was already settled.
+   */
+  ack(): boolean;
+
+  /**
+   * Returns the item to the queue, to be delivered again after the delay. An item on its last
+   * delivery is moved to the dead-letter queue instead.
+   * @param delay When the item becomes visible again, immediately by default.
+   * @returns False if the lease has expired, or was already settled.
+   */
+  nack(delay?: TimeoutInput): boolean;
+
+  /**
+   * Pushes the visibility timeout of the item back.
+   * @param millis The number of milliseconds to extend the lease by.
+   * @returns False if the lease has expired, or was already settled.
+   */
+  extend(millis: number): boolean;
+};
+
+/** The number of items in an acknowledging queue, by whether they can be received. */
+export type AckQueueSize = {
+  /** The number of items that can be received. */
+  visible: number;
+
+  /** The number of items received but not acknowledged, including those returned with a delay. */
+  inFlight: number;
+};
+
+/**
+ * A queue whose items are received as leases, and delivered again unless acknowledged within
+ * the visibility timeout, so that a consumer failing midway does not lose them.
+ */
+export interface AckQueue<T> extends Disposable, AsyncIterable<Lease<T>> {
+  /**
+   * Indicates the current state of the queue with respect to its
+   * read/write capabilities.
+   *
+   * "rw": The queue is in a read-write state, items can be enqueued/received.
+   * "r": The queue is in a read-only state, items can only be received.
+   * "-rw": The queue is in a state neither enqueuing/receiving is allowed.
+   */
+  get state(): "rw" | "r" | "-rw";
+
+  /** The current number of visible and in-flight items in the queue */
+  get size(): AckQueueSize;
+
+  /** Returns whether the queue has neither visible nor in-flight items (true) or not (false) */
+  get isEmpty(): boolean;
+
+  /** Returns whether the queue has been closed (true) or is still open (false) */
+  get isClosed(): boolean;
+
+  /**
+   * Enqueues an item of type T to the queue.
+   *
+   * Errors will be thrown in one of the three following conditions:
+   * 1. The queue is read-only
+   * 2. The queue is closed.
+   * 3. The max buffer size has been reached.
+   * @param item The item to add to the queue.
+   */
+  enqueue(item: T): void;
+
+  /**
+   * Attempts to enqueue an item of type T to the queue. Returns true if the item was successfully enqueued, otherwise false.
+   *
+   * @param item The item to add to the queue.
+   */
+  tryEnqueue(item: T): boolean;
+
+  /**
+   * Asynchronously receives an item from the queue. If no item is visible, it will return a promise that resolves when one becomes visible.
+   */
+  receive(cancellationToken?: CancellationToken): Promise<Lease<T>>;
+
+  /**
+   * Synchronously receives an item from the queue if one is visible, otherwise it will return an object with the value undefined and ok set to false.
+   */
+  tryReceive(): MaybeResult<Lease<T>>;
+
+  /**
+   * Sets the queue to a read-only state, preventing any further enqueuing of items. Items can still be received until the queue is empty.
+   * NOTE: When no item is left visible or in flight, it will be automatically closed.
+   */
+  setReadOnly(): void;
+
+  /** Closes the queue. Dispose and close are interchangeable and idempotent. */
+  close(err?: ErrorLike): void;
+
+  /** Returns a promise that resolves when the queue is closed. */
+  onClose(propagateInjectedError?: boolean): Promise<void>;
+}
+
+/**
+ * Creates a new acknowledging queue with the specified options.
+ * @param options The options to use when creating the queue.
+ * @returns A new acknowledging queue.
+ */
+export const AckQueue = function <T>(
+  options?: AckQueueOptions<T>,
+): AckQueue<T> {
+  return ackQueue(options);
+} as unknown as {
+  new <T>(options?: AckQueueOptions<T>): AckQueue<T>;
+};
+
+/** The queue members a select case relies on, which async and delay queues provide. */
+export type SelectableQueue<T> = Pick<
+  AsyncQueue<T>,
+  "isClosed" | "tryDequeue" | "on" | "off" | "onClose"
+>;
+
+/** A select case taking an item from a queue. */
+export type SelectQueueCase<T, R> = {
+  /** The queue to take an item from. */
+  queue: SelectableQueue<T>;
+  /** Handles the item taken, its result resolving the select. */
+  onItem: (item: T) => R | Promise<R>;
+};
+
+/** A select case chosen once the timeout elapses. */
+export type SelectTimeoutCase<R> = {
+  /** When the case becomes ready, relative to the start of the select. */
+  timeout: TimeoutInput;
+  /** Handles the timeout, its result resolving the select. */
+  onTimeout?: (() => R | Promise<R>) | undefined;
+};
+
+/** A select case chosen once the token is cancelled. */
+export type SelectCancellationCase<R> = {
+  /** The token whose cancellation makes the case ready. */
+  token: CancellationToken;
+  /** Handles the cancellation, its result resolving the select. When omitted, the select rejects with the reason. */
+  onCancel?: ((reason: unknown) => R | Promise<R>) | undefined;
+};
+
+/** A select case chosen when no other case is ready, making the select non-blocking. */
+export type SelectDefaultCase<R> = {
+  /** Handles the absence of a ready case, its result resolving the select. */
+  default: () => R | Promise<R>;
+};
+
+/** A case of a select. */
+export type SelectCase<R> =
+  // deno-lint-ignore no-explicit-any
+  | SelectQueueCase<any, R>
+  | SelectTimeoutCase<R>
+  | SelectCancellationCase<R>
+  | SelectDefaultCase<R>;
@@ -113,7 +113,7 @@ export function rateLimiter(
   settings: RateLimiterSettings,
 ): RateLimiter {
   const executor: Executor = settings?.executor ?? executors.immediate;
-  const consumeOrGetDelay = combine(settings.limits);
+  const consumeOrGetDelay = __combineLimits(settings.limits);
 
   function run<T>(
     fn: Callable<T | PromiseLike<T>>,
@@ -157,7 +157,12 @@ function convertLimits(
   };
 }
 
-function combine(
+/**
+ * Combines the limits into a function that consumes the cost of the callable
+ * from every bucket, returning 0 when all of them allowed it, or otherwise the
+ * time until it can be consumed (in which case nothing is consumed).
+ */
+export function __combineLimits(
   limits: RateLimit[],
 ): (callable: Callable<unknown>) => number {
   if (!limits || limits.length === 0) {
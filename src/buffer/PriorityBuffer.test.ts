@@ -0,0 +1,106 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { PriorityBuffer } from "./PriorityBuffer.ts";
+import { BufferFullError } from "./BufferFullError.ts";
+import { withVirtualTime } from "../testing/VirtualScheduler.ts";
+
+type Job = { name: string; priority: number };
+
+const byPriority = (job: Job) => job.priority;
+
+function job(name: string, priority: number): Job {
+  return { name, priority };
+}
+
+function drain(buffer: PriorityBuffer<Job>): string[] {
+  return [...buffer].map((j) => j.name);
+}
+
+Deno.test("PriorityBuffer reads highest priority first", () => {
+  const buffer = new PriorityBuffer(byPriority);
+  buffer.write(job("low", 1));
+  buffer.write(job("high", 5));
+  buffer.write(job("mid", 3));
+
+  assertEquals(buffer.size, 3);
+  assertEquals(buffer.peek()?.name, "high");
+  assertEquals(drain(buffer), ["high", "mid", "low"]);
+  assert(buffer.isEmpty);
+});
+
+Deno.test("PriorityBuffer keeps fifo order for equal priorities", () => {
+  const buffer = new PriorityBuffer(byPriority);
+  for (let i = 0; i < 20; i++) {
+    buffer.write(job(`${i}`, i % 2));
+  }
+
+  assertEquals(drain(buffer), [
+    ...Array.from({ length: 10 }, (_, i) => `${i * 2 + 1}`),
+    ...Array.from({ length: 10 }, (_, i) => `${i * 2}`),
+  ]);
+});
+
+Deno.test("PriorityBuffer fixed throws when full", () => {
+  const buffer = new PriorityBuffer(byPriority, 2, "fixed");
+  buffer.write(job("a", 1));
+  buffer.write(job("b", 1));
+
+  assert(buffer.isFull);
+  assertThrows(() => buffer.write(job("c", 9)), BufferFullError);
+});
+
+Deno.test("PriorityBuffer drop ignores writes when full", () => {
+  const buffer = new PriorityBuffer(byPriority, 2, "drop");
+  buffer.write(job("a", 1));
+  buffer.write(job("b", 1));
+  buffer.write(job("c", 9));
+
+  assertEquals(drain(buffer), ["a", "b"]);
+});
+
+Deno.test("PriorityBuffer latest evicts the lowest priority", () => {
+  const buffer = new PriorityBuffer(byPriority, 3, "latest");
+  buffer.write(job("a", 5));
+  buffer.write(job("b", 1));
+  buffer.write(job("c", 1));
+  buffer.write(job("d", 3));
+  buffer.write(job("e", 4));
+
+  // b and c share the lowest priority, c being read last is evicted first
+  assertEquals(drain(buffer), ["a", "e", "d"]);
+});
+
+Deno.test("PriorityBuffer latest drops the new value when it is the lowest", () => {
+  const buffer = new PriorityBuffer(byPriority, 2, "latest");
+  buffer.write(job("a", 5));
+  buffer.write(job("b", 3));
+  buffer.write(job("c", 1));
+  buffer.write(job("d", 3));
+
+  // d ties with b but would be read after it, so it is dropped as well
+  assertEquals(drain(buffer), ["a", "b"]);
+});
+
+Deno.test("PriorityBuffer aging prevents starvation", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const buffer = new PriorityBuffer(byPriority, Infinity, "fixed", {
+      interval: 100,
+    });
+
+    buffer.write(job("old", 0));
+    await scheduler.advanceBy(250);
+    buffer.write(job("new", 2));
+    buffer.write(job("newer", 3));
+
+    // old has waited 2.5 intervals, ranking it above new but below newer
+    assertEquals(drain(buffer), ["newer", "old", "new"]);
+  });
+});
+
+Deno.test("PriorityBuffer invalid arguments", () => {
+  assertThrows(() => new PriorityBuffer(byPriority, 0));
+  assertThrows(() => new PriorityBuffer(byPriority, 1.5), TypeError);
+  assertThrows(
+    () => new PriorityBuffer(byPriority, 2, "fixed", { interval: 0 }),
+    TypeError,
+  );
+});
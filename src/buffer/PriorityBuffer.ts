@@ -0,0 +1,251 @@
+import type {
+  BufferLike,
+  BufferStrategy,
+  BufferStrategySelector,
+} from "./BufferLike.ts";
+import { DisposedError } from "../DisposedError.ts";
+import { BufferFullError } from "./BufferFullError.ts";
+
+/**
+ * The aging policy of a priority buffer, which raises the priority of waiting
+ * values so that low priority values are not starved by a steady stream of
+ * higher priority ones.
+ */
+export type PriorityAging = {
+  /** the number of milliseconds a value waits for its priority to be raised by `step` */
+  interval: number;
+  /** the amount the priority is raised by every `interval`, 1 by default */
+  step?: number;
+};
+
+type Entry<T> = {
+  value: T;
+  rank: number;
+  seq: number;
+};
+
+/**
+ * A buffer that reads values by priority, the highest first, values of equal
+ * priority being read in the order they were written. When full, the "latest"
+ * strategy evicts the value that would be read last to make room for the new
+ * one, or drops the new value when it would be read last itself.
+ */
+export class PriorityBuffer<T> implements BufferLike<T> {
+  readonly #heap: Entry<T>[] = [];
+  readonly #priority: (value: T) => number;
+  readonly #capacity: number;
+  readonly #writeOnFull: (value: T) => void;
+  readonly #rate: number;
+  readonly #origin = Date.now();
+  #seq = 0;
+  #disposed = false;
+
+  constructor(
+    priority: (value: T) => number,
+    capacity = Infinity,
+    strategy: BufferStrategy | BufferStrategySelector<T> = "fixed",
+    aging?: PriorityAging,
+  ) {
+    if (capacity < 1) {
+      throw new Error("Buffer size must be at least 1");
+    }
+
+    if (Number.isNaN(capacity)) {
+      throw new TypeError("Buffer size must be a valid number");
+    }
+
+    if (capacity !== Infinity && !Number.isInteger(capacity)) {
+      throw new TypeError("Buffer size must be an integer");
+    }
+
+    if (aging && !(aging.interval > 0)) {
+      throw new TypeError(`Invalid duration ${aging.interval}`);
+    }
+
+    this.#priority = priority;
+    this.#capacity = capacity;
+    this.#rate = aging ? (aging.step ?? 1) / aging.interval : 0;
+
+    switch (strategy) {
+      case "drop":
+        this.#writeOnFull = () => {};
+        break;
+      case "latest":
+        this.#writeOnFull = (value: T) => this.#replaceLowest(value);
+        break;
+      case "fixed":
+        this.#writeOnFull = () => {
+          throw new BufferFullError();
+        };
+        break;
+      default:
+        if (typeof strategy === "function") {
+          this.#writeOnFull = (value: T) => {
+            switch (strategy(value)) {
+              case "drop":
+                return;
+              case "latest":
+                this.#replaceLowest(value);
+                return;
+              case "fixed":
+                throw new BufferFullError();
+              default:
+                throw new Error("Invalid strategy");
+            }
+          };
+          break;
+        } else {
+          throw new TypeError("Invalid strategy");
+        }
+    }
+  }
+
+  get size(): number {
+    return this.#heap.length;
+  }
+
+  get isFull(): boolean {
+    return this.#heap.length >= this.#capacity;
+  }
+
+  get isEmpty(): boolean {
+    return this.#heap.length === 0;
+  }
+
+  write(value: T): void {
+    if (this.#disposed) {
+      throw new DisposedError();
+    }
+
+    if (this.#heap.length < this.#capacity) {
+      this.#push(value);
+    } else {
+      this.#writeOnFull(value);
+    }
+  }
+
+  read(): T | undefined {
+    return this.#heap.length === 0 ? undefined : this.#removeAt(0).value;
+  }
+
+  peek(): T | undefined {
+    return this.#heap[0]?.value;
+  }
+
+  clear(): void {
+    this.#heap.splice(0);
+  }
+
+  [Symbol.dispose](): void {
+    if (!this.#disposed) {
+      this.#disposed = true;
+      this.clear();
+    }
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    if (this.#disposed) {
+      throw new DisposedError();
+    }
+
+    while (!this.isEmpty) {
+      yield this.read()!;
+    }
+  }
+
+  #push(value: T): void {
+    this.#insert(this.#entryOf(value));
+  }
+
+  #entryOf(value: T): Entry<T> {
+    // with aging, the effective priority of a value is its priority plus
+    // (now - writtenAt) * rate; as every value ages at the same rate, the
+    // order only depends on priority - writtenAt * rate, which never changes
+    const rank = this.#rate === 0
+      ? this.#priority(value)
+      : this.#priority(value) - (Date.now() - this.#origin) * this.#rate;
+
+    return { value, rank, seq: this.#seq++ };
+  }
+
+  #insert(entry: Entry<T>): void {
+    this.#heap.push(entry);
+    this.#siftUp(this.#heap.length - 1);
+  }
+
+  #replaceLowest(value: T): void {
+    const heap = this.#heap;
+    const entry = this.#entryOf(value);
+    if (heap.length === 0) {
+      this.#insert(entry);
+      return;
+    }
+
+    // the lowest entry is always a leaf
+    let lowest = heap.length >> 1;
+    for (let i = lowest + 1; i < heap.length; i++) {
+      if (this.#before(heap[lowest], heap[i])) {
+        lowest = i;
+      }
+    }
+
+    // the new value is dropped when it would be read last
+    if (this.#before(entry, heap[lowest])) {
+      this.#removeAt(lowest);
+      this.#insert(entry);
+    }
+  }
+
+  #removeAt(index: number): Entry<T> {
+    const heap = this.#heap;
+    const removed = heap[index];
+    const last = heap.pop()!;
+    if (index < heap.length) {
+      heap[index] = last;
+      this.#siftDown(index);
+      this.#siftUp(index);
+    }
+
+    return removed;
+  }
+
+  #before(a: Entry<T>, b: Entry<T>): boolean {
+    return a.rank > b.rank || (a.rank === b.rank && a.seq < b.seq);
+  }
+
+  #siftUp(index: number): void {
+    const heap = this.#heap;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.#before(heap[index], heap[parent])) {
+        return;
+      }
+
+      [heap[index], heap[parent]] = [heap[parent], heap[index]];
+      index = parent;
+    }
+  }
+
+  #siftDown(index: number): void {
+    const heap = this.#heap;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let first = index;
+      if (left < heap.length && this.#before(heap[left], heap[first])) {
+        first = left;
+      }
+
+      if (right < heap.length && this.#before(heap[right], heap[first])) {
+        first = right;
+      }
+
+      if (first === index) {
+        return;
+      }
+
+      [heap[index], heap[first]] = [heap[first], heap[index]];
+      index = first;
+    }
+  }
+}
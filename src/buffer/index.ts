@@ -11,3 +11,4 @@
 export * from "./BufferLike.ts";
 export { Buffer } from "./Buffer.ts";
 export { RingBuffer } from "./RingBuffer.ts";
+export { type PriorityAging, PriorityBuffer } from "./PriorityBuffer.ts";
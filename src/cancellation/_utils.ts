@@ -66,6 +66,46 @@ export function __createToken(
   return cancellation;
 }
 
+/**
+ * Creates a cancellation that is cancelled either explicitly or when any of
+ * the given parent tokens is cancelled. Unlike a combined token, cancellation
+ * of a parent propagates the parent's own reason so that downstream
+ * cancellation handling still recognizes the parent token.
+ */
+export function __linkedCancellation(
+  ...parents: Array<CancellationToken | undefined>
+): { readonly token: CancellationToken; cancel(): void } {
+  const controller = new AbortController();
+  const token = __createToken(controller.signal);
+  const unregisters = new Array<() => void>();
+  const cancel = (reason?: Error) => {
+    unregisters.forEach((unregister) => unregister());
+    if (!controller.signal.aborted) {
+      controller.abort(reason);
+    }
+  };
+
+  for (const parent of parents) {
+    if (parent?.isCancelled === true) {
+      cancel(parent.reason);
+      break;
+    }
+
+    if (parent) {
+      unregisters.push(parent.register((token) => cancel(token.reason)));
+    }
+  }
+
+  return {
+    get token(): CancellationToken {
+      return token;
+    },
+    cancel(): void {
+      cancel();
+    },
+  };
+}
+
 export function __unwrap(cancellation: CancellationToken): AbortSignal {
   // deno-lint-ignore no-explicit-any
   const signal = (cancellation as any)[signalSym];
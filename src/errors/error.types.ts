@@ -69,6 +69,21 @@ export class RateLimitError extends RetryableError {
 
 export class ShutdownError extends NonRetryableError {}
 
+export class MalformedRecordError extends NonRetryableError {
+  constructor(reason: unknown, record: unknown, index: number) {
+    super(typeof reason === "string" ? reason : "Malformed record");
+    this.cause = typeof reason === "string" ? undefined : reason;
+    this.name = "MalformedRecordError";
+    this.record = record;
+    this.index = index;
+  }
+
+  /** the raw text or bytes of the record that could not be decoded */
+  public readonly record: unknown;
+  /** the zero-based position of the record in the stream */
+  public readonly index: number;
+}
+
 export class QueueLengthExceededError extends Error {}
 
 const asNilOrInvalidName = (a: string, b: boolean) =>
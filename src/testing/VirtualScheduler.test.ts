@@ -0,0 +1,116 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { VirtualScheduler, withVirtualTime } from "./VirtualScheduler.ts";
+import { Flowable } from "../async/flowable/Flowable.ts";
+import { Pipeable } from "../async/pipeable/Pipeable.ts";
+import { map } from "../async/pipeable/pipeable-funcs.ts";
+import { delay } from "../async/delay.ts";
+import { Deadline, DeadlineExceededError } from "../deadline.ts";
+import { Cancellable } from "../cancellation/Cancellable.ts";
+
+Deno.test("virtual scheduler replays cold sources on virtual time", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(scheduler.cold("-a-b-|"), "-a-b-|");
+    await scheduler.expect(scheduler.cold("(ab)-#"), "(ab)-#");
+    assertEquals(scheduler.now, 7);
+  });
+});
+
+Deno.test("virtual scheduler reports mismatches as marbles", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await assertRejects(
+      () => scheduler.expect(scheduler.cold("-a-b-|"), "-a--b|"),
+      Error,
+      `Expected "-a--b|" but got "-a-b-|"`,
+    );
+  });
+});
+
+Deno.test("virtual scheduler runs time based operators", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(
+      scheduler.cold("-a-b-----c-|").debounce(3),
+      "------b----(c|)",
+    );
+
+    await scheduler.expect(
+      scheduler.cold("-a-b-c-|", { values: { a: 1, b: 2, c: 3 } })
+        .map((x) => x * 10),
+      "-a-b-c-|",
+      { values: { a: 10, b: 20, c: 30 } },
+    );
+  });
+});
+
+Deno.test("virtual scheduler times out flows on the virtual clock", async () => {
+  await withVirtualTime(async (scheduler) => {
+    const actual = await scheduler.record(
+      scheduler.cold("-a------b-|").timeout({ perItem: 3 }),
+    );
+
+    assertEquals(actual.length, 2);
+    assertEquals(actual[0], { frame: 1, kind: "next", value: "a" });
+    assertEquals(actual[1].frame, 4);
+    assert(
+      actual[1].kind === "error" &&
+        actual[1].error instanceof DeadlineExceededError,
+    );
+  });
+});
+
+Deno.test("virtual scheduler runs pipeable chains", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(
+      Pipeable.toIterable(
+        scheduler.cold("--a--b|").toIterable(),
+        map((x: string) => x.toUpperCase()),
+      ),
+      "--A--B|",
+    );
+  });
+});
+
+Deno.test("virtual scheduler stops recording flows that never end", async () => {
+  await withVirtualTime(async (scheduler) => {
+    await scheduler.expect(scheduler.cold("-a-b"), "-a-b", { maxFrames: 50 });
+    assertEquals(scheduler.now, 50);
+
+    const ticks = await scheduler.record(Flowable.interval(10), {
+      maxFrames: 35,
+    });
+    assertEquals(ticks.map((n) => n.frame), [10, 20, 30]);
+  });
+});
+
+Deno.test("virtual scheduler drives delay, Deadline and Cancellable.timeout", async () => {
+  using scheduler = new VirtualScheduler({ startTime: 1000 }).install();
+  assertEquals(Date.now(), 1000);
+
+  const deadline = Deadline.after(100);
+  const expiry = Cancellable.timeout(50);
+  let delayed = false;
+  delay(75).then(() => delayed = true);
+
+  await scheduler.advanceBy(50);
+  assert(expiry.isCancelled);
+  assert(!delayed);
+  assertEquals(deadline.remainingMillis, 50);
+
+  await scheduler.advanceTo(1101);
+  assert(delayed);
+  assert(deadline.isExpired);
+  assertEquals(scheduler.pendingTimers, 0);
+});
+
+Deno.test("virtual scheduler restores the real timers once disposed", async () => {
+  const setTimeout = globalThis.setTimeout;
+  const now = Date.now;
+
+  await withVirtualTime((scheduler) => {
+    assert(scheduler.isInstalled);
+    assert(globalThis.setTimeout !== setTimeout);
+    assertThrows(() => new VirtualScheduler().install(), Error);
+  });
+
+  assert(globalThis.setTimeout === setTimeout);
+  assert(Date.now === now);
+});
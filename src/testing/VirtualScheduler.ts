@@ -0,0 +1,438 @@
+import type { FlowPublisher } from "../async/flowable/FlowPublisher.ts";
+import { Flowable } from "../async/flowable/Flowable.ts";
+import { isFlowPublisher } from "../async/flowable/_sources.ts";
+import { createCancellation } from "../cancellation/createCancellation.ts";
+import { delay } from "../async/delay.ts";
+import {
+  type MarbleOptions,
+  type Notification,
+  parseMarbles,
+  toMarbles,
+} from "./marbles.ts";
+
+/**
+ * Options for creating a virtual scheduler.
+ */
+export type VirtualSchedulerOptions = {
+  /** the virtual time the scheduler starts at, 0 by default */
+  startTime?: number;
+  /** the number of virtual milliseconds in a marble frame, 1 by default */
+  frameTimeMillis?: number;
+};
+
+type Timer = {
+  due: number;
+  seq: number;
+  callback: () => void;
+  interval?: number;
+};
+
+type Globals =
+  & Pick<
+    typeof globalThis,
+    "setTimeout" | "clearTimeout" | "setInterval" | "clearInterval"
+  >
+  & { now: () => number };
+
+// virtual ids are kept apart from the ids of real timers, which are cleared
+// through the original functions
+const FIRST_TIMER_ID = 1 << 30;
+
+let installed: VirtualScheduler | undefined;
+
+/**
+ * A clock that only moves when advanced. Once installed it replaces
+ * `setTimeout`, `setInterval` (and their clear counterparts) and `Date.now`, so
+ * that `delay`, `Deadline`, `Cancellable.timeout` and the time based operators
+ * run against virtual time. Pending promise callbacks are settled after each
+ * timer, so chains of flows progress as they would in real time.
+ *
+ * @example
+ * ```ts
+ * await withVirtualTime(async (scheduler) => {
+ *   const source = scheduler.cold("-a-b-|");
+ *   await scheduler.expect(source.debounce(2), "-----(b|)");
+ * });
+ * ```
+ */
+export class VirtualScheduler implements Disposable {
+  readonly frameTimeMillis: number;
+  readonly #timers = new Map<number, Timer>();
+  #now: number;
+  #nextId = FIRST_TIMER_ID;
+  #seq = 0;
+  #originals: Globals | undefined;
+
+  constructor(options?: VirtualSchedulerOptions) {
+    this.#now = options?.startTime ?? 0;
+    this.frameTimeMillis = options?.frameTimeMillis ?? 1;
+
+    if (!(this.frameTimeMillis > 0)) {
+      throw new TypeError(`Invalid duration ${this.frameTimeMillis}`);
+    }
+  }
+
+  /** The current virtual time in milliseconds. */
+  get now(): number {
+    return this.#now;
+  }
+
+  /** The number of timers that have yet to fire. */
+  get pendingTimers(): number {
+    return this.#timers.size;
+  }
+
+  /** Whether the scheduler currently replaces the timer globals. */
+  get isInstalled(): boolean {
+    return this.#originals !== undefined;
+  }
+
+  /**
+   * Replaces the timer globals and `Date.now` with their virtual versions
+   * until the scheduler is disposed. Only one scheduler can be installed at a
+   * time.
+   * @returns The scheduler, to be used with `using`.
+   */
+  install(): this {
+    if (installed) {
+      throw new Error("A virtual scheduler is already installed");
+    }
+
+    installed = this;
+    const originals: Globals = {
+      setTimeout: globalThis.setTimeout,
+      clearTimeout: globalThis.clearTimeout,
+      setInterval: globalThis.setInterval,
+      clearInterval: globalThis.clearInterval,
+      now: Date.now,
+    };
+    this.#originals = originals;
+
+    const clear = (id?: number) => {
+      if (id !== undefined && !this.#timers.delete(id)) {
+        originals.clearTimeout(id);
+      }
+    };
+
+    Object.assign(globalThis, {
+      setTimeout: (
+        handler: TimerHandler,
+        timeout?: number,
+        ...args: unknown[]
+      ) => this.#schedule(handler, timeout, args, false),
+      setInterval: (
+        handler: TimerHandler,
+        timeout?: number,
+        ...args: unknown[]
+      ) => this.#schedule(handler, timeout, args, true),
+      clearTimeout: clear,
+      clearInterval: clear,
+    });
+    Date.now = () => this.#now;
+
+    return this;
+  }
+
+  /**
+   * Restores the original timer globals and drops the pending timers.
+   */
+  [Symbol.dispose](): void {
+    const originals = this.#originals;
+    if (!originals) {
+      return;
+    }
+
+    Object.assign(globalThis, {
+      setTimeout: originals.setTimeout,
+      clearTimeout: originals.clearTimeout,
+      setInterval: originals.setInterval,
+      clearInterval: originals.clearInterval,
+    });
+    Date.now = originals.now;
+
+    this.#originals = undefined;
+    this.#timers.clear();
+    installed = undefined;
+  }
+
+  /**
+   * Lets pending promise callbacks run without moving the clock.
+   */
+  async settle(): Promise<void> {
+    const setTimeout = this.#requireInstalled().setTimeout;
+    await new Promise<void>((resolve) => setTimeout(resolve, 0));
+  }
+
+  /**
+   * Moves the clock forward, firing the timers that fall due on the way.
+   * @param millis The number of virtual milliseconds to advance by.
+   */
+  advanceBy(millis: number): Promise<void> {
+    if (!(millis >= 0)) {
+      throw new TypeError(`Invalid duration ${millis}`);
+    }
+
+    return this.advanceTo(this.#now + millis);
+  }
+
+  /**
+   * Moves the clock to the given time, firing the timers that fall due on
+   * the way.
+   * @param time The virtual time to advance to.
+   */
+  async advanceTo(time: number): Promise<void> {
+    await this.settle();
+    while (await this.#fireNext(time));
+    this.#now = Math.max(this.#now, time);
+    await this.settle();
+  }
+
+  /**
+   * Fires timers until none are left, or the clock reaches `maxTime`.
+   * @param maxTime The virtual time not to advance beyond, which guards
+   * against intervals; one minute past the current time by default.
+   */
+  async run(maxTime: number = this.#now + 60_000): Promise<void> {
+    await this.settle();
+    while (await this.#fireNext(maxTime));
+  }
+
+  /**
+   * Creates a publisher that replays the marble diagram for each
+   * subscription, starting at the time of the subscription.
+   * @param marbles The marble diagram, e.g. `"-a-b-|"`.
+   * @param options The values and error the characters stand for.
+   * @returns A flow publisher emitting the diagram on virtual time.
+   */
+  cold<T = string>(
+    marbles: string,
+    options?: MarbleOptions<T>,
+  ): FlowPublisher<T> {
+    const notifications = parseMarbles(marbles, options);
+    const frameTimeMillis = this.frameTimeMillis;
+
+    return Flowable.fromGenerator<T>(async function* (): AsyncGenerator<T> {
+      const start = Date.now();
+      for (const notification of notifications) {
+        const wait = start + notification.frame * frameTimeMillis - Date.now();
+        if (wait > 0) {
+          await delay(wait);
+        }
+
+        switch (notification.kind) {
+          case "next":
+            yield notification.value;
+            break;
+          case "error":
+            throw notification.error;
+          case "complete":
+            return;
+        }
+      }
+
+      // a diagram without a terminal notification never completes
+      await new Promise<never>(() => {});
+    });
+  }
+
+  /**
+   * Subscribes to the source and records what it emits, and when, until it
+   * terminates or `maxFrames` frames have passed.
+   * @param source The publisher, or the iterable of a pipeable chain.
+   * @param options The number of frames after which the recording stops.
+   * @returns The notifications, timestamped relative to the subscription.
+   */
+  async record<T>(
+    source: FlowPublisher<T> | AsyncIterable<T>,
+    options?: { maxFrames?: number },
+  ): Promise<Notification<T>[]> {
+    this.#requireInstalled();
+
+    const maxFrames = options?.maxFrames ?? 1000;
+    const start = this.#now;
+    const frame = () => (this.#now - start) / this.frameTimeMillis;
+    const cancellation = createCancellation();
+    const iterable = isFlowPublisher<T>(source)
+      ? source.toIterable({
+        token: cancellation.token,
+        throwOnCancellation: false,
+      })
+      : source;
+
+    const notifications: Notification<T>[] = [];
+    let terminated = false;
+    const it = iterable[Symbol.asyncIterator]();
+    const consumer = (async () => {
+      try {
+        while (true) {
+          const result = await it.next();
+          if (terminated) {
+            return;
+          }
+
+          if (result.done) {
+            notifications.push({ frame: frame(), kind: "complete" });
+            return;
+          }
+
+          notifications.push({
+            frame: frame(),
+            kind: "next",
+            value: result.value,
+          });
+        }
+      } catch (error) {
+        if (!terminated) {
+          notifications.push({ frame: frame(), kind: "error", error });
+        }
+      } finally {
+        terminated = true;
+      }
+    })();
+
+    const maxTime = start + maxFrames * this.frameTimeMillis;
+    await this.settle();
+    while (!terminated && await this.#fireNext(maxTime));
+
+    if (!terminated) {
+      this.#now = Math.max(this.#now, maxTime);
+      terminated = true;
+      cancellation.cancel();
+      it.return?.().catch(() => {});
+      await this.settle();
+    } else {
+      await consumer;
+    }
+
+    return notifications;
+  }
+
+  /**
+   * Records the source and asserts that it matches the marble diagram.
+   * @param source The publisher, or the iterable of a pipeable chain.
+   * @param marbles The expected marble diagram, e.g. `"-a-b-|"`.
+   * @param options The values and error the characters stand for.
+   * @throws {Error} When the recording differs from the diagram.
+   */
+  async expect<T = string>(
+    source: FlowPublisher<T> | AsyncIterable<T>,
+    marbles: string,
+    options?: MarbleOptions<T> & { maxFrames?: number },
+  ): Promise<void> {
+    const expected = parseMarbles(marbles, options);
+    const actual = await this.record(source, {
+      maxFrames: options?.maxFrames ??
+        Math.max(1000, ...expected.map((n) => n.frame + 1)),
+    });
+
+    const matches = actual.length === expected.length &&
+      actual.every((n, i) => sameNotification(n, expected[i]));
+
+    if (!matches) {
+      throw new Error(
+        `Expected "${toMarbles(expected, options)}" but got "${
+          toMarbles(actual, options)
+        }"`,
+      );
+    }
+  }
+
+  #requireInstalled(): Globals {
+    if (!this.#originals) {
+      throw new Error("The virtual scheduler is not installed");
+    }
+
+    return this.#originals;
+  }
+
+  #schedule(
+    handler: TimerHandler,
+    timeout: number | undefined,
+    args: unknown[],
+    repeat: boolean,
+  ): number {
+    if (typeof handler !== "function") {
+      throw new TypeError("Only function handlers are supported");
+    }
+
+    const id = this.#nextId++;
+    const interval = Math.max(0, timeout ?? 0);
+    this.#timers.set(id, {
+      due: this.#now + interval,
+      seq: this.#seq++,
+      callback: () => handler(...args),
+      interval: repeat ? Math.max(1, interval) : undefined,
+    });
+
+    return id;
+  }
+
+  async #fireNext(maxTime: number): Promise<boolean> {
+    let next: [number, Timer] | undefined;
+    for (const entry of this.#timers) {
+      const [, timer] = entry;
+      if (
+        timer.due <= maxTime &&
+        (!next || timer.due < next[1].due ||
+          (timer.due === next[1].due && timer.seq < next[1].seq))
+      ) {
+        next = entry;
+      }
+    }
+
+    if (!next) {
+      return false;
+    }
+
+    const [id, timer] = next;
+    this.#now = Math.max(this.#now, timer.due);
+    if (timer.interval === undefined) {
+      this.#timers.delete(id);
+    } else {
+      timer.due = this.#now + timer.interval;
+      timer.seq = this.#seq++;
+    }
+
+    timer.callback();
+    await this.settle();
+    return true;
+  }
+}
+
+/**
+ * Runs the callback with a virtual scheduler installed, restoring the real
+ * timers once it settles.
+ * @param fn The callback to run against virtual time.
+ * @param options The options for the scheduler.
+ * @returns The result of the callback.
+ */
+export async function withVirtualTime<T>(
+  fn: (scheduler: VirtualScheduler) => T | Promise<T>,
+  options?: VirtualSchedulerOptions,
+): Promise<T> {
+  using scheduler = new VirtualScheduler(options).install();
+  return await fn(scheduler);
+}
+
+function sameNotification<T>(
+  actual: Notification<T>,
+  expected: Notification<T>,
+): boolean {
+  if (actual.kind !== expected.kind || actual.frame !== expected.frame) {
+    return false;
+  }
+
+  switch (actual.kind) {
+    case "next":
+      return Object.is(
+        actual.value,
+        (expected as { value: T }).value,
+      ) || JSON.stringify(actual.value) ===
+          JSON.stringify((expected as { value: T }).value);
+    case "error":
+      return (expected as { error: unknown }).error === undefined ||
+        Object.is(actual.error, (expected as { error: unknown }).error);
+    default:
+      return true;
+  }
+}
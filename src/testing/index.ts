@@ -0,0 +1,8 @@
+/**
+ * This module contains utilities for testing flows and pipeables against a
+ * virtual clock, using marble diagrams to describe sources and expectations.
+ * @module testing
+ */
+
+export * from "./marbles.ts";
+export * from "./VirtualScheduler.ts";
@@ -0,0 +1,38 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { parseMarbles, toMarbles } from "./marbles.ts";
+
+Deno.test("parseMarbles reads frames, values and terminals", () => {
+  assertEquals(parseMarbles("-a-(bc)-|"), [
+    { frame: 1, kind: "next", value: "a" },
+    { frame: 3, kind: "next", value: "b" },
+    { frame: 3, kind: "next", value: "c" },
+    { frame: 5, kind: "complete" },
+  ]);
+});
+
+Deno.test("parseMarbles maps values and errors", () => {
+  const error = new Error("boom");
+  assertEquals(parseMarbles(" a b # ", { values: { a: 1, b: 2 }, error }), [
+    { frame: 0, kind: "next", value: 1 },
+    { frame: 1, kind: "next", value: 2 },
+    { frame: 2, kind: "error", error },
+  ]);
+});
+
+Deno.test("parseMarbles rejects unbalanced groups", () => {
+  assertThrows(() => parseMarbles("-(a-|"), TypeError);
+  assertThrows(() => parseMarbles("-a)|"), TypeError);
+});
+
+Deno.test("toMarbles renders what parseMarbles reads", () => {
+  for (const marbles of ["-a-(bc)-|", "a--#", "--(a|)", ""]) {
+    assertEquals(toMarbles(parseMarbles(marbles)), marbles);
+  }
+
+  assertEquals(
+    toMarbles(parseMarbles("-a-b|", { values: { a: 1, b: 20 } }), {
+      values: { a: 1 },
+    }),
+    "-a-(20)|",
+  );
+});
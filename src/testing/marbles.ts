@@ -0,0 +1,150 @@
+/**
+ * A notification observed on a flow, timestamped with the frame it occurred
+ * in relative to the subscription.
+ */
+export type Notification<T> =
+  | { frame: number; kind: "next"; value: T }
+  | { frame: number; kind: "error"; error: unknown }
+  | { frame: number; kind: "complete" };
+
+/**
+ * Options for translating marble diagrams to and from notifications.
+ */
+export type MarbleOptions<T> = {
+  /** the values emitted for each marble character, the character by default */
+  values?: Record<string, T>;
+  /** the error raised by `#` */
+  error?: unknown;
+};
+
+/**
+ * Parses a marble diagram into the notifications it describes.
+ *
+ * - `-` is one frame in which nothing happens
+ * - any other character emits a value and takes one frame
+ * - `|` completes the flow and `#` fails it with `options.error`
+ * - `(ab)` emits its values in the same frame, the group taking one frame
+ * - whitespace is ignored and can be used to align diagrams
+ *
+ * @param marbles The marble diagram, e.g. `"-a-b-|"`.
+ * @param options The values and error the characters stand for.
+ * @returns The notifications, in order of occurrence.
+ */
+export function parseMarbles<T = string>(
+  marbles: string,
+  options?: MarbleOptions<T>,
+): Notification<T>[] {
+  const notifications: Notification<T>[] = [];
+  let frame = 0;
+  let inGroup = false;
+
+  for (const char of marbles) {
+    switch (char) {
+      case " ":
+      case "\t":
+      case "\n":
+        continue;
+      case "-":
+        if (inGroup) {
+          throw new TypeError(`Invalid marbles "${marbles}"`);
+        }
+        frame++;
+        continue;
+      case "(":
+        if (inGroup) {
+          throw new TypeError(`Invalid marbles "${marbles}"`);
+        }
+        inGroup = true;
+        continue;
+      case ")":
+        if (!inGroup) {
+          throw new TypeError(`Invalid marbles "${marbles}"`);
+        }
+        inGroup = false;
+        frame++;
+        continue;
+      case "|":
+        notifications.push({ frame, kind: "complete" });
+        break;
+      case "#":
+        notifications.push({ frame, kind: "error", error: options?.error });
+        break;
+      default:
+        notifications.push({
+          frame,
+          kind: "next",
+          value: options?.values && char in options.values
+            ? options.values[char]
+            : char as T,
+        });
+        break;
+    }
+
+    if (!inGroup) {
+      frame++;
+    }
+  }
+
+  if (inGroup) {
+    throw new TypeError(`Invalid marbles "${marbles}"`);
+  }
+
+  return notifications;
+}
+
+/**
+ * Renders notifications as a marble diagram, the inverse of `parseMarbles`.
+ * Values without a character in `options.values` are rendered as JSON
+ * within a group, so that the diagram stays readable in assertion messages.
+ * @param notifications The notifications, in order of occurrence.
+ * @param options The values the characters stand for.
+ * @returns The marble diagram.
+ */
+export function toMarbles<T>(
+  notifications: Notification<T>[],
+  options?: MarbleOptions<T>,
+): string {
+  const characters = new Map<unknown, string>(
+    Object.entries(options?.values ?? {}).map(([char, value]) => [
+      value,
+      char,
+    ]),
+  );
+
+  const render = (n: Notification<T>) => {
+    switch (n.kind) {
+      case "complete":
+        return "|";
+      case "error":
+        return "#";
+      default:
+        return characters.get(n.value) ??
+          (typeof n.value === "string" && n.value.length === 1
+            ? n.value
+            : JSON.stringify(n.value));
+    }
+  };
+
+  let marbles = "";
+  let frame = 0;
+  for (let i = 0; i < notifications.length;) {
+    const current = notifications[i].frame;
+    let end = i;
+    while (
+      end < notifications.length && notifications[end].frame === current
+    ) {
+      end++;
+    }
+
+    marbles += "-".repeat(Math.max(0, Math.ceil(current - frame)));
+    const frameMarbles = notifications.slice(i, end).map(render);
+    marbles += frameMarbles.length === 1 && frameMarbles[0].length === 1
+      ? frameMarbles[0]
+      : `(${frameMarbles.join("")})`;
+
+    frame = current + 1;
+    i = end;
+  }
+
+  return marbles;
+}